@@ -0,0 +1,188 @@
+/**
+ * API Key Auth
+ * Opt-in authentication for non-browser clients (CLI scripts, cron jobs) with
+ * personal access tokens sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ *
+ * A key resolves into the same AuthUser context as a cookie login, so getUser,
+ * authorize and downstream code don't care how the caller logged in.
+ *
+ * SECURITY NOTES:
+ * - Separate from requireAuth, which stays cookie-only; services opt in per route
+ * - Keys are `<prefix><id>_<secret>`; only the SHA-256 hash of the secret is
+ *   stored, compared in constant time
+ * - A key's scopes replace the user's scopes, and keys carry no roles
+ * - Expired or deleted keys stop working immediately; a failing store fails closed
+ * - Requests authenticated with a key are marked (authMethod 'apiKey'), so CSRF
+ *   checks skip them and key management can require a cookie session
+ * - Error messages are generic to prevent information leakage
+ */
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { Context, Next, MiddlewareHandler } from 'hono';
+import type { AuthUser } from '../types/auth.js';
+import type { ApiKeyRecord, ApiKeyStore } from './apiKeyStore.js';
+
+export interface ApiKeyAuthConfig {
+  /** Where keys are stored (see createApiKeyStore) */
+  store: ApiKeyStore;
+  /**
+   * Prefix of every key (default: 'cdx_')
+   * Makes leaked keys easy to spot for secret scanners
+   */
+  keyPrefix?: string;
+  /** Record a key's last use at most this often, in seconds (default: 60) */
+  touchInterval?: number;
+}
+
+export interface CreateApiKeyOptions {
+  /** Label, e.g. 'nightly-export cron' */
+  name: string;
+  /** Scopes granted to the key (default: none) */
+  scopes?: string[];
+  /** Expiry in ms since the epoch (null: never) */
+  expiresAt?: number | null;
+}
+
+export interface ApiKeyAuth {
+  /** Middleware that requires an API key (401 JSON otherwise) */
+  requireApiKey: MiddlewareHandler;
+  /**
+   * Middleware that uses the API key when the request carries one,
+   * and `fallback` (e.g. requireAuth) otherwise
+   */
+  withApiKeys: (fallback: MiddlewareHandler) => MiddlewareHandler;
+  /** Mint a key for a user; the returned key is shown once and never stored */
+  createKey: (user: AuthUser, options: CreateApiKeyOptions) => Promise<{ key: string; record: ApiKeyRecord }>;
+  /** Whether the request was authenticated with an API key */
+  isApiKeyRequest: (c: Context) => boolean;
+}
+
+/** Value of the 'authMethod' context variable for API key requests */
+export const API_KEY_AUTH_METHOD = 'apiKey';
+
+const hashSecret = (secret: string) => createHash('sha256').update(secret).digest('hex');
+
+/**
+ * Create API key authentication
+ *
+ * @example
+ * const apiKeys = createApiKeyAuth({ store: createRedisApiKeyStore(redis) });
+ *
+ * // CLI and browser clients on the same routes
+ * app.use('/api/*', apiKeys.withApiKeys(requireAuth));
+ * app.post('/api/import', requireScope('import:write'), handler);
+ *
+ * // curl -H "Authorization: Bearer cdx_..." https://api.example.com/api/import
+ */
+export function createApiKeyAuth(config: ApiKeyAuthConfig): ApiKeyAuth {
+  const {
+    store,
+    keyPrefix = 'cdx_',
+    touchInterval = 60,
+  } = config;
+
+  // Validate config at creation time (fail fast)
+  if (!store) {
+    throw new Error('ApiKeyAuth: store is required');
+  }
+
+  const keyPattern = new RegExp(`^${keyPrefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}([0-9a-f]{16})_([A-Za-z0-9_-]{43})$`);
+
+  /**
+   * Read a key from the request (undefined if it carries none)
+   */
+  const readKey = (c: Context): string | undefined => {
+    const apiKey = c.req.header('x-api-key');
+    if (apiKey) return apiKey.trim();
+
+    const match = /^Bearer\s+(\S+)$/i.exec(c.req.header('authorization') || '');
+    // Other bearer tokens (e.g. service tokens) aren't API keys
+    return match && match[1].startsWith(keyPrefix) ? match[1] : undefined;
+  };
+
+  /**
+   * Look up a key and check its secret (null if invalid)
+   */
+  const verifyKey = async (key: string): Promise<ApiKeyRecord | null> => {
+    const match = keyPattern.exec(key);
+    if (!match) return null;
+
+    const record = await store.get(match[1]);
+    if (!record) return null;
+
+    const expected = Buffer.from(record.hash, 'hex');
+    const actual = Buffer.from(hashSecret(match[2]), 'hex');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    if (record.expiresAt !== null && record.expiresAt <= Date.now()) return null;
+    return record;
+  };
+
+  const authenticate = async (c: Context, next: Next, key: string) => {
+    let record: ApiKeyRecord | null;
+    try {
+      record = await verifyKey(key);
+    } catch {
+      // Store unavailable: fail closed
+      record = null;
+    }
+
+    if (!record) {
+      // SECURITY: Generic error message, no hint whether the key exists
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const now = Date.now();
+    if (record.lastUsedAt === null || now - record.lastUsedAt >= touchInterval * 1000) {
+      try {
+        await store.touch(record.id, now);
+      } catch {
+        // Last use is informational, don't fail the request
+      }
+    }
+
+    const user: AuthUser = { ...record.user, scopes: [...record.scopes] };
+    c.set('user', user);
+    c.set('authMethod', API_KEY_AUTH_METHOD);
+    await next();
+  };
+
+  const requireApiKey: MiddlewareHandler = async (c: Context, next: Next) => {
+    const key = readKey(c);
+    if (!key) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+    return authenticate(c, next, key);
+  };
+
+  const withApiKeys = (fallback: MiddlewareHandler): MiddlewareHandler => {
+    return async (c: Context, next: Next) => {
+      const key = readKey(c);
+      // SECURITY: A request with a bad key fails, it doesn't fall back to cookies
+      return key ? authenticate(c, next, key) : fallback(c, next);
+    };
+  };
+
+  const createKey = async (user: AuthUser, options: CreateApiKeyOptions) => {
+    const id = randomBytes(8).toString('hex');
+    const secret = randomBytes(32).toString('base64url');
+
+    const record: ApiKeyRecord = {
+      id,
+      hash: hashSecret(secret),
+      name: options.name,
+      // Identity only: keys carry their own scopes and no roles
+      user: { id: user.id, email: user.email, name: user.name, picture: user.picture, schemaVersion: user.schemaVersion },
+      scopes: [...(options.scopes ?? [])],
+      createdAt: Date.now(),
+      expiresAt: options.expiresAt ?? null,
+      lastUsedAt: null,
+    };
+    await store.save(record);
+
+    return { key: `${keyPrefix}${id}_${secret}`, record };
+  };
+
+  const isApiKeyRequest = (c: Context) => c.get('authMethod') === API_KEY_AUTH_METHOD;
+
+  return { requireApiKey, withApiKeys, createKey, isApiKeyRequest };
+}
@@ -0,0 +1,189 @@
+/**
+ * API Key Stores
+ * Hashed API keys (personal access tokens) with scopes, expiry and last use
+ *
+ * Supports:
+ * - In-memory store (default, per-process)
+ * - Redis-protocol store (shared across replicas, survives deploys)
+ *
+ * Stores only ever see the key's SHA-256 hash, never the key itself.
+ * Expired keys are dropped.
+ */
+import type { AuthUser } from '../types/auth.js';
+import { validateAuthUser } from '../utils/schema.js';
+import type { RedisCommandClient } from './rateLimitStore.js';
+
+/**
+ * A stored API key
+ * All times are in ms since the epoch
+ */
+export interface ApiKeyRecord {
+  /** Public key id (part of the key, safe to show) */
+  id: string;
+  /** SHA-256 hash of the key's secret part (hex) */
+  hash: string;
+  /** Label, e.g. 'nightly-export cron' */
+  name: string;
+  /** Identity requests with this key act as */
+  user: AuthUser;
+  /** Scopes granted to the key (replace the user's scopes) */
+  scopes: string[];
+  createdAt: number;
+  /** Null if the key never expires */
+  expiresAt: number | null;
+  /** Null if the key was never used */
+  lastUsedAt: number | null;
+}
+
+/**
+ * Storage backend used by the API key authenticator and routes
+ */
+export interface ApiKeyStore {
+  /** Get a key by id (null if missing or expired) */
+  get(id: string): Promise<ApiKeyRecord | null>;
+  /** Add or replace a key */
+  save(record: ApiKeyRecord): Promise<void>;
+  /** List all unexpired keys */
+  list(): Promise<ApiKeyRecord[]>;
+  /** Delete a key (false if it didn't exist) */
+  delete(id: string): Promise<boolean>;
+  /** Record when a key was last used */
+  touch(id: string, lastUsedAt: number): Promise<void>;
+}
+
+const isLive = (record: ApiKeyRecord) => record.expiresAt === null || record.expiresAt > Date.now();
+
+/**
+ * Create an in-memory API key store
+ * Keys are lost on restart; use createRedisApiKeyStore to keep them
+ */
+export function createApiKeyStore(): ApiKeyStore {
+  const keys = new Map<string, ApiKeyRecord>();
+
+  const getLive = (id: string) => {
+    const record = keys.get(id);
+    if (!record) return undefined;
+    if (!isLive(record)) {
+      keys.delete(id);
+      return undefined;
+    }
+    return record;
+  };
+
+  return {
+    async get(id) {
+      const record = getLive(id);
+      return record ? { ...record } : null;
+    },
+
+    async save(record) {
+      keys.set(record.id, { ...record });
+    },
+
+    async list() {
+      return [...keys.keys()]
+        .map(id => getLive(id))
+        .filter((record): record is ApiKeyRecord => record !== undefined)
+        .map(record => ({ ...record }));
+    },
+
+    async delete(id) {
+      const existed = getLive(id) !== undefined;
+      keys.delete(id);
+      return existed;
+    },
+
+    async touch(id, lastUsedAt) {
+      const record = getLive(id);
+      if (record) {
+        record.lastUsedAt = lastUsedAt;
+      }
+    },
+  };
+}
+
+export interface RedisApiKeyStoreOptions {
+  /** Key prefix for all API key keys (default: 'apikey:') */
+  prefix?: string;
+}
+
+/**
+ * Parse a stored record (null if it isn't a valid ApiKeyRecord)
+ */
+function parseRecord(reply: unknown): ApiKeyRecord | null {
+  if (reply == null) return null;
+  try {
+    const record = JSON.parse(String(reply)) as ApiKeyRecord;
+    if (typeof record?.id !== 'string' || typeof record.hash !== 'string') return null;
+    if (!Array.isArray(record.scopes) || !validateAuthUser(record.user).ok) return null;
+    return record;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create an API key store backed by a Redis-protocol server
+ * Keys are JSON strings expiring with the API key, indexed in a set
+ *
+ * @example
+ * const redis = createClient({ url: process.env.REDIS_URL });
+ * await redis.connect();
+ *
+ * const apiKeyStore = createRedisApiKeyStore(redis);
+ */
+export function createRedisApiKeyStore(
+  client: RedisCommandClient,
+  options: RedisApiKeyStoreOptions = {}
+): ApiKeyStore {
+  const prefix = options.prefix ?? 'apikey:';
+  const indexKey = `${prefix}ids`;
+  const recordKey = (id: string) => `${prefix}key:${id}`;
+
+  const get = async (id: string) => {
+    const record = parseRecord(await client.sendCommand(['GET', recordKey(id)]));
+    return record && isLive(record) ? record : null;
+  };
+
+  return {
+    get,
+
+    async save(record) {
+      const args = ['SET', recordKey(record.id), JSON.stringify(record)];
+      if (record.expiresAt !== null) {
+        args.push('PX', Math.max(Math.ceil(record.expiresAt - Date.now()), 1).toString());
+      }
+      await client.sendCommand(args);
+      await client.sendCommand(['SADD', indexKey, record.id]);
+    },
+
+    async list() {
+      const ids = await client.sendCommand(['SMEMBERS', indexKey]);
+      const records: ApiKeyRecord[] = [];
+      for (const id of Array.isArray(ids) ? ids.map(String) : []) {
+        const record = await get(id);
+        if (record) {
+          records.push(record);
+        } else {
+          // Expired, drop it from the index
+          await client.sendCommand(['SREM', indexKey, id]);
+        }
+      }
+      return records;
+    },
+
+    async delete(id) {
+      const removed = await client.sendCommand(['DEL', recordKey(id)]);
+      await client.sendCommand(['SREM', indexKey, id]);
+      return Number(removed) > 0;
+    },
+
+    async touch(id, lastUsedAt) {
+      const record = await get(id);
+      if (record) {
+        // KEEPTTL keeps the expiry set by save, XX doesn't resurrect a deleted key
+        await client.sendCommand(['SET', recordKey(id), JSON.stringify({ ...record, lastUsedAt }), 'KEEPTTL', 'XX']);
+      }
+    },
+  };
+}
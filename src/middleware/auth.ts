@@ -5,26 +5,35 @@
  *
  * SECURITY NOTES:
  * - JWT is read ONLY from 'auth_token' HttpOnly cookie (never headers/query)
- * - Algorithm is hardcoded to HS256 (prevents algorithm confusion attacks)
+ * - HS256 only with jwtSecret; RS256/ES256/EdDSA only with the key pinned by kid
+ *   in jwtKeys (prevents algorithm confusion attacks)
+ * - Token payload must be a valid AuthUser (checked at runtime, not just cast)
+ * - iss/aud/maxAge/required claims are enforced when configured, so a token
+ *   minted for one service can be rejected by the others
+ * - With session refresh, access tokens are short-lived and re-issued by the Hub
+ *   shortly before they expire (the refresh cookie never leaves /api/auth)
+ * - Re-issue only happens for unrevoked tokens within maxRenewAge of login
+ *   (auth_time), and the new token must keep the same auth_time
+ * - With devHub (local development only), logins and re-issues go to the mock Hub
  * - JWT secret is passed at runtime, never logged or stored
  * - Error messages are generic to prevent information leakage
- * - Login redirects use hubPublicUrl (never internal Docker URLs)
+ * - Login redirects use hubPublicUrl (never internal Docker URLs), or the
+ *   service's own /api/auth/login with selfUrl (returnTo allowlist, signed state)
  */
 import type { Context, Next, MiddlewareHandler } from 'hono';
 import { getCookie } from 'hono/cookie';
-import jwt from 'jsonwebtoken';
 import type { AuthUser } from '../types/auth.js';
+import { createUserTokenVerifier } from './tokenVerifier.js';
+import type { TokenVerificationConfig, VerifiedUser } from './tokenVerifier.js';
+import { ACCESS_COOKIE, requestHubTokens, resolveSessionConfig, setSessionCookies } from './session.js';
+import type { DevHub, SessionRefreshConfig } from './session.js';
 
 /**
  * Configuration for auth middleware factory
+ * Token settings (jwtSecret/jwtKeys, issuer, audience, maxAge, clockTolerance,
+ * requiredClaims) are shared with createAuthRoutes
  */
-export interface AuthMiddlewareConfig {
-  /**
-   * JWT secret for verifying tokens
-   * MUST match the secret used by Hub to sign tokens
-   */
-  jwtSecret: string;
-
+export interface AuthMiddlewareConfig extends TokenVerificationConfig {
   /**
    * Public-facing Hub URL for login redirects
    * e.g., 'https://hub.example.com' or 'http://localhost:6100'
@@ -37,6 +46,35 @@ export interface AuthMiddlewareConfig {
    * e.g., 'https://myapp.example.com' or 'http://localhost:3000'
    */
   frontendUrl: string;
+
+  /**
+   * This service's public API URL (same as createAuthRoutes' selfUrl)
+   * When set, logins go through /api/auth/login, which checks returnTo against
+   * allowedReturnTo and carries it through the Hub in a signed state
+   */
+  selfUrl?: string;
+
+  /**
+   * Short-lived access tokens with transparent re-issue (optional)
+   * Use the same settings as createAuthRoutes
+   */
+  session?: SessionRefreshConfig;
+
+  /**
+   * Whether running in production (affects cookie security of re-issued tokens)
+   * Default: process.env.NODE_ENV === 'production'
+   */
+  isProduction?: boolean;
+
+  /**
+   * Cookie domain for re-issued tokens (must match createAuthRoutes)
+   */
+  cookieDomain?: string;
+
+  /**
+   * Mock Hub for local development (same instance as createAuthRoutes, requires selfUrl)
+   */
+  devHub?: DevHub;
 }
 
 /**
@@ -72,73 +110,140 @@ export interface AuthMiddleware {
  *   jwtSecret: env.jwtSecret,
  *   hubPublicUrl: env.hubPublicUrl,
  *   frontendUrl: env.frontendUrl,
+ *   issuer: env.hubPublicUrl,
+ *   audience: 'my-service',
  * });
  *
  * app.use('/api/*', requireAuth);
  * ```
  */
 export function createAuthMiddleware(config: AuthMiddlewareConfig): AuthMiddleware {
-  const { jwtSecret, hubPublicUrl, frontendUrl } = config;
+  const {
+    hubPublicUrl,
+    frontendUrl,
+    selfUrl,
+    isProduction = process.env.NODE_ENV === 'production',
+    cookieDomain,
+    devHub,
+  } = config;
 
   // Validate config at creation time (fail fast)
-  if (!jwtSecret) {
-    throw new Error('AuthMiddleware: jwtSecret is required');
-  }
+  const verifyUserToken = createUserTokenVerifier(config, 'AuthMiddleware');
   if (!hubPublicUrl) {
     throw new Error('AuthMiddleware: hubPublicUrl is required');
   }
   if (!frontendUrl) {
     throw new Error('AuthMiddleware: frontendUrl is required');
   }
+  if (devHub && !selfUrl) {
+    throw new Error('AuthMiddleware: selfUrl is required with devHub');
+  }
+
+  // With devHub, re-issues go to the mock Hub in-process
+  const session = config.session ? resolveSessionConfig(config.session, devHub) : undefined;
 
   // Login URL uses public Hub URL (never internal Docker URLs)
-  const loginUrl = `${hubPublicUrl}/api/auth/google`;
+  const loginUrl = selfUrl ? `${selfUrl}/api/auth/login` : `${hubPublicUrl}/api/auth/google`;
+
+  /**
+   * Redirect a page request to login, returning to the same page (query string included)
+   */
+  const redirectToLogin = (c: Context) => {
+    const returnTo = encodeURIComponent(frontendUrl + c.req.path + new URL(c.req.url).search);
+    return c.redirect(`${loginUrl}?returnTo=${returnTo}`);
+  };
+
+  // Concurrent requests with the same expiring token share one re-issue
+  const renewals = new Map<string, Promise<{ token: string; user: VerifiedUser; refreshToken?: string } | null>>();
+
+  /**
+   * Whether a verified token may be re-issued without the refresh token
+   */
+  const canRenew = (user: VerifiedUser) =>
+    typeof user.auth_time === 'number' && Date.now() / 1000 - user.auth_time < session!.maxRenewAge;
+
+  /**
+   * Re-issue an access token through the Hub (null if the Hub refuses)
+   * The token has already passed verification, revocation checks included
+   */
+  const renew = (token: string, authTime: number) => {
+    let pending = renewals.get(token);
+    if (!pending) {
+      pending = requestHubTokens(session!.endpoint, { accessToken: token })
+        .then(async (tokens) => {
+          // SECURITY: Tokens from the Hub are verified like any other
+          const user = await verifyUserToken(tokens.accessToken);
+          // SECURITY: A re-issue never extends the session past the original login
+          if (user.auth_time !== authTime) {
+            throw new Error('Session extended');
+          }
+          return { token: tokens.accessToken, user, refreshToken: tokens.refreshToken };
+        })
+        .catch(() => null)
+        .finally(() => {
+          // Keep the result briefly for requests already in flight
+          setTimeout(() => renewals.delete(token), 10 * 1000).unref?.();
+        });
+      renewals.set(token, pending);
+    }
+    return pending;
+  };
 
   /**
    * Middleware that requires authentication
    */
   const requireAuth: MiddlewareHandler = async (c: Context, next: Next) => {
-    const token = getCookie(c, 'auth_token');
+    const token = getCookie(c, ACCESS_COOKIE);
 
     if (!token) {
       // For API requests, return 401 JSON
       if (c.req.path.startsWith('/api/')) {
         return c.json({ error: 'Unauthorized', loginUrl }, 401);
       }
-      // For page requests, redirect to Hub login
-      const returnTo = encodeURIComponent(frontendUrl + c.req.path);
-      return c.redirect(`${loginUrl}?returnTo=${returnTo}`);
+      // For page requests, redirect to login
+      return redirectToLogin(c);
     }
 
+    let user: VerifiedUser;
     try {
-      // SECURITY: Algorithm is hardcoded to prevent algorithm confusion attacks
-      const user = jwt.verify(token, jwtSecret, {
-        algorithms: ['HS256'],
-      }) as AuthUser;
-      c.set('user', user);
-      await next();
+      user = await verifyUserToken(token);
     } catch {
       // SECURITY: Generic error message, no token details leaked
       if (c.req.path.startsWith('/api/')) {
         return c.json({ error: 'Invalid token', loginUrl }, 401);
       }
-      const returnTo = encodeURIComponent(frontendUrl + c.req.path);
-      return c.redirect(`${loginUrl}?returnTo=${returnTo}`);
+      return redirectToLogin(c);
     }
+
+    // Re-issue before expiry; on failure the current token stays valid
+    const { exp } = user;
+    if (session && exp !== undefined && exp - Date.now() / 1000 < session.renewBefore && canRenew(user)) {
+      const renewed = await renew(token, user.auth_time!);
+      if (renewed) {
+        setSessionCookies(c, { accessToken: renewed.token, refreshToken: renewed.refreshToken }, {
+          isProduction,
+          cookieDomain,
+          accessMaxAge: session.accessMaxAge,
+          refreshMaxAge: session.refreshMaxAge,
+        });
+        user = renewed.user;
+      }
+    }
+
+    c.set('user', user);
+    await next();
   };
 
   /**
    * Middleware that optionally authenticates
    */
   const optionalAuth: MiddlewareHandler = async (c: Context, next: Next) => {
-    const token = getCookie(c, 'auth_token');
+    const token = getCookie(c, ACCESS_COOKIE);
 
     if (token) {
       try {
-        // SECURITY: Same algorithm restriction as requireAuth
-        const user = jwt.verify(token, jwtSecret, {
-          algorithms: ['HS256'],
-        }) as AuthUser;
+        // SECURITY: Same verification as requireAuth
+        const user = await verifyUserToken(token);
         c.set('user', user);
       } catch {
         // Invalid token, continue without user (don't block)
@@ -160,3 +265,5 @@ export function createAuthMiddleware(config: AuthMiddlewareConfig): AuthMiddlewa
 
 // Re-export AuthUser type for convenience
 export type { AuthUser } from '../types/auth.js';
+export type { TokenVerificationConfig } from './tokenVerifier.js';
+export type { SessionRefreshConfig } from './session.js';
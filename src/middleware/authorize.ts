@@ -0,0 +1,153 @@
+/**
+ * Authorization Middleware
+ * Role, scope and resource-level checks on the user set by auth middleware
+ *
+ * Must run after requireAuth (or optionalAuth) so the user is in context.
+ *
+ * SECURITY NOTES:
+ * - Deny by default: a missing user, a throwing check or a false result all deny
+ * - Roles and scopes come from verified JWT claims only
+ * - Error messages are generic; API requests get JSON, pages get plain text
+ */
+import type { Context, Next, MiddlewareHandler } from 'hono';
+import type { AuthUser } from '../types/auth.js';
+
+/**
+ * Minimal user shape checks run against (AuthUser matches it)
+ */
+export type AuthorizationUser = Pick<AuthUser, 'id' | 'roles' | 'scopes'>;
+
+/**
+ * A permission check
+ * Resource-level checks can read the request (params, body) and be async
+ */
+export type AuthorizationCheck = (user: AuthorizationUser, c: Context) => boolean | Promise<boolean>;
+
+export interface AuthorizeOptions {
+  /** Get the user (default: the user set by auth middleware) */
+  getUser?: (c: Context) => AuthorizationUser | null | undefined;
+  /** Error message for denied requests (default: 'Forbidden') */
+  message?: string;
+}
+
+/**
+ * User has at least one of the roles
+ */
+export function hasRole(...roles: string[]): AuthorizationCheck {
+  return (user) => roles.some(role => user.roles?.includes(role) ?? false);
+}
+
+/**
+ * User has every one of the scopes
+ */
+export function hasScope(...scopes: string[]): AuthorizationCheck {
+  return (user) => scopes.every(scope => user.scopes?.includes(scope) ?? false);
+}
+
+/**
+ * User is one of the given user IDs (e.g. service owners)
+ */
+export function isUser(...userIds: Array<string | undefined>): AuthorizationCheck {
+  const ids = userIds.filter((id): id is string => !!id);
+  return (user) => ids.includes(user.id);
+}
+
+/**
+ * At least one check passes
+ */
+export function anyOf(...checks: AuthorizationCheck[]): AuthorizationCheck {
+  return async (user, c) => {
+    for (const check of checks) {
+      if (await check(user, c)) return true;
+    }
+    return false;
+  };
+}
+
+/**
+ * Every check passes
+ */
+export function allOf(...checks: AuthorizationCheck[]): AuthorizationCheck {
+  return async (user, c) => {
+    for (const check of checks) {
+      if (!(await check(user, c))) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Create middleware that denies requests failing a check
+ * - No user: 401 (JSON for /api/ requests, plain text for pages)
+ * - Check fails: 403 (JSON for /api/ requests, plain text for pages)
+ *
+ * @example
+ * // Resource-level: only the item's owner or an admin may edit it
+ * app.put('/api/items/:id', requireAuth, authorize(anyOf(
+ *   hasRole('admin'),
+ *   async (user, c) => (await getItem(c.req.param('id')))?.ownerId === user.id,
+ * )), handler);
+ */
+export function authorize(check: AuthorizationCheck, options: AuthorizeOptions = {}): MiddlewareHandler {
+  const {
+    getUser = (c: Context) => c.get('user') as AuthorizationUser | undefined,
+    message = 'Forbidden',
+  } = options;
+
+  return async (c: Context, next: Next) => {
+    const isApi = c.req.path.startsWith('/api/');
+    const user = getUser(c);
+
+    if (!user) {
+      return isApi ? c.json({ error: 'Unauthorized' }, 401) : c.text('Unauthorized', 401);
+    }
+
+    let allowed = false;
+    try {
+      allowed = await check(user, c);
+    } catch {
+      // Deny on errors (e.g. a failed resource lookup)
+    }
+
+    if (!allowed) {
+      // SECURITY: Generic error message, no hint about the missing permission
+      return isApi ? c.json({ error: message }, 403) : c.text(message, 403);
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Require at least one of the roles
+ *
+ * @example
+ * app.use('/api/admin/*', requireAuth, requireRole('admin'));
+ */
+export function requireRole(...roles: string[]): MiddlewareHandler {
+  return authorize(hasRole(...roles));
+}
+
+/**
+ * Require every one of the scopes
+ *
+ * @example
+ * app.post('/api/items', requireAuth, requireScope('items:write'), handler);
+ */
+export function requireScope(...scopes: string[]): MiddlewareHandler {
+  return authorize(hasScope(...scopes));
+}
+
+/**
+ * Require at least one of the checks
+ */
+export function requireAny(...checks: AuthorizationCheck[]): MiddlewareHandler {
+  return authorize(anyOf(...checks));
+}
+
+/**
+ * Require every one of the checks
+ */
+export function requireAll(...checks: AuthorizationCheck[]): MiddlewareHandler {
+  return authorize(allOf(...checks));
+}
@@ -0,0 +1,206 @@
+/**
+ * CSRF Protection
+ * Origin/Referer verification plus a double-submit token bound to the session
+ * for cookie-authenticated, state-changing requests
+ *
+ * SameSite=Lax doesn't stop sibling subdomains sharing cookieDomain (they are
+ * same-site), so unsafe requests must also come from a trusted origin and
+ * carry a token the frontend got from /me or GET /csrf.
+ *
+ * SECURITY NOTES:
+ * - Safe methods (GET, HEAD, OPTIONS) are exempt; they must not change state
+ * - Requests authenticated with an API key are exempt (the key is sent
+ *   explicitly, browsers never attach it on their own)
+ * - Origin must be a trusted origin (Referer's origin if Origin is absent);
+ *   requests with neither are rejected
+ * - The token is HMAC-signed over the session id (the user id by default), so
+ *   a token set by a sibling subdomain or issued to another user never matches
+ * - The header must equal the csrf cookie (double submit), compared in constant time
+ * - Error messages are generic; API requests get JSON, pages get plain text
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { Context, Next, MiddlewareHandler } from 'hono';
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie';
+import { API_KEY_AUTH_METHOD } from './apiKeyAuth.js';
+
+export interface CsrfConfig {
+  /**
+   * Secret for signing tokens (at least 32 characters)
+   * Not the JWT secret; every replica of a service needs the same one
+   */
+  secret: string;
+  /**
+   * Origins allowed to send state-changing requests
+   * e.g. [env.frontendUrl] (scheme, host and port must match exactly)
+   */
+  trustedOrigins: string[];
+  /** Get the session a token is bound to (default: id of the user set by auth middleware) */
+  getSessionId?: (c: Context) => string | null | undefined;
+  /** Request header carrying the token (default: 'X-CSRF-Token') */
+  headerName?: string;
+  /** Cookie holding the token (default: 'csrf_token') */
+  cookieName?: string;
+  /**
+   * Whether running in production (affects cookie security)
+   * Default: process.env.NODE_ENV === 'production'
+   */
+  isProduction?: boolean;
+}
+
+export interface CsrfProtection {
+  /**
+   * Middleware checking origin and token on unsafe methods
+   * Must run after requireAuth (or optionalAuth) so the session is known
+   */
+  csrfProtection: MiddlewareHandler;
+  /** Middleware checking only the origin on unsafe methods (routes without a session) */
+  originProtection: MiddlewareHandler;
+  /** Get a token for the session and set the csrf cookie (reuses a valid cookie) */
+  issueToken: (c: Context, sessionId?: string | null) => string;
+  /** Clear the csrf cookie (e.g. on logout) */
+  clearToken: (c: Context) => void;
+  /** Check the request's Origin (or Referer) against the trusted origins */
+  hasTrustedOrigin: (c: Context) => boolean;
+  /** Check the request's token against the cookie and the session */
+  hasValidToken: (c: Context, sessionId?: string | null) => boolean;
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Whether a request needs CSRF checks (unsafe method, not authenticated with an API key)
+ */
+const needsCheck = (c: Context) =>
+  !SAFE_METHODS.includes(c.req.method) && c.get('authMethod') !== API_KEY_AUTH_METHOD;
+
+/**
+ * Normalize a URL to its origin (null if not a valid URL)
+ */
+function toOrigin(value: string): string | null {
+  try {
+    const origin = new URL(value).origin;
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create CSRF protection for a service
+ *
+ * @example
+ * const { csrfProtection } = createCsrfProtection({
+ *   secret: env.csrfSecret,
+ *   trustedOrigins: [env.frontendUrl],
+ * });
+ *
+ * app.use('/api/*', requireAuth, csrfProtection);
+ *
+ * // Frontend: read csrfToken from /api/auth/me and send it back
+ * fetch('/api/items', { method: 'POST', headers: { 'X-CSRF-Token': csrfToken }, body });
+ */
+export function createCsrfProtection(config: CsrfConfig): CsrfProtection {
+  const {
+    secret,
+    getSessionId = (c: Context) => (c.get('user') as { id?: string } | undefined)?.id,
+    headerName = 'X-CSRF-Token',
+    cookieName = 'csrf_token',
+    isProduction = process.env.NODE_ENV === 'production',
+  } = config;
+
+  // Validate config at creation time (fail fast)
+  if (!secret || secret.length < 32) {
+    throw new Error('Csrf: secret of at least 32 characters is required');
+  }
+  const trustedOrigins = (config.trustedOrigins || []).map(origin => toOrigin(origin));
+  if (trustedOrigins.length === 0 || trustedOrigins.includes(null)) {
+    throw new Error('Csrf: trustedOrigins must be a list of valid URLs');
+  }
+
+  const sign = (sessionId: string, nonce: string) =>
+    createHmac('sha256', secret).update(`${sessionId}.${nonce}`).digest('base64url');
+
+  // Token format: <nonce>.<HMAC(session id + nonce)>
+  const isTokenForSession = (token: string, sessionId: string) => {
+    const [nonce, signature, extra] = token.split('.');
+    if (!nonce || !signature || extra !== undefined) return false;
+    const expected = Buffer.from(sign(sessionId, nonce));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  };
+
+  const resolveSession = (c: Context, sessionId?: string | null) =>
+    (sessionId === undefined ? getSessionId(c) : sessionId) || '';
+
+  const hasTrustedOrigin = (c: Context) => {
+    const source = c.req.header('origin') || c.req.header('referer');
+    const origin = source ? toOrigin(source) : null;
+    return origin !== null && trustedOrigins.includes(origin);
+  };
+
+  const hasValidToken = (c: Context, sessionId?: string | null) => {
+    const header = c.req.header(headerName);
+    const cookie = getCookie(c, cookieName);
+    if (!header || !cookie) return false;
+
+    const a = Buffer.from(header);
+    const b = Buffer.from(cookie);
+    if (a.length !== b.length || !timingSafeEqual(a, b)) return false;
+
+    return isTokenForSession(header, resolveSession(c, sessionId));
+  };
+
+  const issueToken = (c: Context, sessionId?: string | null) => {
+    const session = resolveSession(c, sessionId);
+
+    // Keep the current token so open tabs don't lose theirs
+    const existing = getCookie(c, cookieName);
+    if (existing && isTokenForSession(existing, session)) {
+      return existing;
+    }
+
+    const nonce = randomBytes(16).toString('base64url');
+    const token = `${nonce}.${sign(session, nonce)}`;
+    setCookie(c, cookieName, token, {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: 'Strict',
+      path: '/',
+    });
+    return token;
+  };
+
+  const clearToken = (c: Context) => {
+    deleteCookie(c, cookieName, { path: '/' });
+  };
+
+  const deny = (c: Context) => {
+    // SECURITY: Generic error message, no hint about which check failed
+    return c.req.path.startsWith('/api/')
+      ? c.json({ error: 'Forbidden' }, 403)
+      : c.text('Forbidden', 403);
+  };
+
+  const csrfProtection: MiddlewareHandler = async (c: Context, next: Next) => {
+    if (needsCheck(c) && (!hasTrustedOrigin(c) || !hasValidToken(c))) {
+      return deny(c);
+    }
+    await next();
+  };
+
+  const originProtection: MiddlewareHandler = async (c: Context, next: Next) => {
+    if (needsCheck(c) && !hasTrustedOrigin(c)) {
+      return deny(c);
+    }
+    await next();
+  };
+
+  return {
+    csrfProtection,
+    originProtection,
+    issueToken,
+    clearToken,
+    hasTrustedOrigin,
+    hasValidToken,
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Request Detection Rules
+ * Bot and suspicious-request rules used by metricsLogger
+ *
+ * Services can add their own rules or disable built-in ones by id
+ * through MetricsLoggerOptions.
+ */
+import type { Context } from 'hono';
+import type { DetectionSeverity } from '../types/metrics.js';
+import { isInternalRequest } from '../utils/ip.js';
+
+/**
+ * What a rule detects ('bot' rules mark isBot, all others mark isSuspicious)
+ */
+export type DetectionCategory =
+  | 'bot'
+  | 'probe'
+  | 'sqli'
+  | 'xss'
+  | 'traversal'
+  | 'scanner';
+
+/**
+ * Part of the request a rule is tested against
+ * - path: request path
+ * - query: raw and decoded query string
+ * - headers: every header value except Cookie and Authorization
+ * - userAgent: User-Agent header
+ */
+export type DetectionTarget = 'path' | 'query' | 'headers' | 'userAgent';
+
+export interface DetectionRule {
+  /** Stable identifier, recorded in RequestMetric.matchedRules */
+  id: string;
+  category: DetectionCategory;
+  severity: DetectionSeverity;
+  targets: DetectionTarget[];
+  /** Tested once per value (g and y flags are dropped, they'd make tests stateful) */
+  pattern: RegExp;
+}
+
+export interface DetectionOptions {
+  /** Extra rules (a rule with a built-in id replaces the built-in rule) */
+  rules?: DetectionRule[];
+  /** Rule ids to disable */
+  disabledRules?: string[];
+}
+
+export interface DetectionResult {
+  isBot: boolean;
+  isSuspicious: boolean;
+  /** Ids of matched non-bot rules */
+  matchedRules: string[];
+  /** Highest severity among matched non-bot rules */
+  severity?: DetectionSeverity;
+}
+
+/**
+ * Built-in rules
+ */
+export const DEFAULT_DETECTION_RULES: DetectionRule[] = [
+  // External bots/crawlers
+  { id: 'bot-generic', category: 'bot', severity: 'low', targets: ['userAgent'],
+    pattern: /bot|crawler|spider|scraper/i },
+  { id: 'bot-search-engine', category: 'bot', severity: 'low', targets: ['userAgent'],
+    pattern: /googlebot|bingbot|slurp|duckduckbot|baiduspider/i },
+  { id: 'bot-social', category: 'bot', severity: 'low', targets: ['userAgent'],
+    pattern: /facebookexternalhit|twitterbot|linkedinbot/i },
+  { id: 'bot-seo', category: 'bot', severity: 'low', targets: ['userAgent'],
+    pattern: /semrush|ahrefs|moz|dotbot/i },
+
+  // Common attack vectors
+  { id: 'probe-script-extension', category: 'probe', severity: 'low', targets: ['path'],
+    pattern: /\.(php|asp|aspx|jsp|cgi|pl)$/i },
+  { id: 'probe-wordpress', category: 'probe', severity: 'medium', targets: ['path'],
+    pattern: /wp-admin|wp-login|wp-content|wordpress/i },
+  { id: 'probe-db-admin', category: 'probe', severity: 'medium', targets: ['path'],
+    pattern: /phpmyadmin|adminer|pma/i },
+  { id: 'probe-secret-files', category: 'probe', severity: 'high', targets: ['path'],
+    pattern: /\.env|\.git|\.htaccess|\.aws/i },
+  { id: 'probe-config-files', category: 'probe', severity: 'medium', targets: ['path'],
+    pattern: /config\.json|package\.json|composer\.json/i },
+  { id: 'traversal-dotdot', category: 'traversal', severity: 'high', targets: ['path', 'query'],
+    pattern: /\/\.\.|%2e%2e|%252e/i },
+  { id: 'xss-script', category: 'xss', severity: 'high', targets: ['path', 'query', 'userAgent'],
+    pattern: /<script|javascript:/i },
+  { id: 'xss-data-uri', category: 'xss', severity: 'medium', targets: ['path', 'userAgent'],
+    pattern: /data:/i },
+  { id: 'sqli-keywords', category: 'sqli', severity: 'critical', targets: ['path', 'query', 'userAgent'],
+    pattern: /union.*select|insert.*into|drop.*table/i },
+  { id: 'scanner-tools', category: 'scanner', severity: 'high', targets: ['userAgent', 'path'],
+    pattern: /nikto|sqlmap|nmap|masscan/i },
+  { id: 'scanner-dir-bruteforce', category: 'scanner', severity: 'high', targets: ['userAgent', 'path'],
+    pattern: /gobuster|dirbuster|dirb|ffuf/i },
+];
+
+const SEVERITY_ORDER: DetectionSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+// Never scanned (credentials, and noisy enough to cause false positives)
+const SKIPPED_HEADERS = ['cookie', 'authorization'];
+
+/**
+ * Drop the g and y flags, so test() doesn't carry lastIndex between calls
+ */
+function toStatelessPattern(pattern: RegExp): RegExp {
+  return pattern.global || pattern.sticky
+    ? new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+    : pattern;
+}
+
+/**
+ * Merge built-in and extra rules, dropping disabled ones
+ */
+export function resolveDetectionRules(options: DetectionOptions = {}): DetectionRule[] {
+  const rules = new Map<string, DetectionRule>();
+  for (const rule of [...DEFAULT_DETECTION_RULES, ...(options.rules ?? [])]) {
+    rules.set(rule.id, { ...rule, pattern: toStatelessPattern(rule.pattern) });
+  }
+  for (const id of options.disabledRules ?? []) {
+    rules.delete(id);
+  }
+  return [...rules.values()];
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Get the values a rule target is tested against
+ */
+function getTargetValues(c: Context, target: DetectionTarget): string[] {
+  if (target === 'path') {
+    return [c.req.path];
+  }
+  if (target === 'query') {
+    const url = c.req.url;
+    const index = url.indexOf('?');
+    if (index === -1) return [];
+    const query = url.slice(index + 1);
+    return [query, decode(query)];
+  }
+  if (target === 'headers') {
+    return Object.entries(c.req.header())
+      .filter(([name]) => !SKIPPED_HEADERS.includes(name.toLowerCase()))
+      .map(([, value]) => value);
+  }
+  return [c.req.header('user-agent') || ''];
+}
+
+/**
+ * Run detection rules against a request
+ */
+export function detectRequest(c: Context, ip: string, rules: DetectionRule[]): DetectionResult {
+  const internal = isInternalRequest(ip);
+  const userAgent = c.req.header('user-agent') || '';
+  // Internal traffic is never a bot; external traffic without a UA always is
+  let isBot = !internal && !userAgent;
+  const matchedRules: string[] = [];
+  let severity: DetectionSeverity | undefined;
+
+  const cache = new Map<DetectionTarget, string[]>();
+  const valuesFor = (target: DetectionTarget) => {
+    let values = cache.get(target);
+    if (!values) {
+      values = getTargetValues(c, target);
+      cache.set(target, values);
+    }
+    return values;
+  };
+
+  for (const rule of rules) {
+    if (rule.category === 'bot' && (internal || isBot)) continue;
+
+    const matched = rule.targets.some(target =>
+      valuesFor(target).some(value => rule.pattern.test(value))
+    );
+    if (!matched) continue;
+
+    if (rule.category === 'bot') {
+      isBot = true;
+    } else {
+      matchedRules.push(rule.id);
+      if (!severity || SEVERITY_ORDER.indexOf(rule.severity) > SEVERITY_ORDER.indexOf(severity)) {
+        severity = rule.severity;
+      }
+    }
+  }
+
+  return { isBot, isSuspicious: matchedRules.length > 0, matchedRules, severity };
+}
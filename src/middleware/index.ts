@@ -1,3 +1,13 @@
 export * from './metrics.js';
 export * from './rateLimit.js';
 export * from './auth.js';
+export * from './rateLimitStore.js';
+export * from './penaltyBox.js';
+export * from './detection.js';
+export * from './metricsSink.js';
+export * from './revocationStore.js';
+export * from './authorize.js';
+export * from './serviceAuth.js';
+export * from './csrf.js';
+export * from './apiKeyStore.js';
+export * from './apiKeyAuth.js';
@@ -0,0 +1,116 @@
+/**
+ * Login State (internal)
+ * returnTo allowlisting and the signed, expiring state carried through the Hub
+ *
+ * Used by the auth routes: /login checks returnTo and signs it into `state`
+ * along with a nonce it also sets as a cookie; /callback verifies `state`,
+ * matches the nonce against the cookie and redirects to the returnTo inside it.
+ *
+ * SECURITY NOTES:
+ * - returnTo is resolved against frontendUrl and must match an allowed origin
+ *   and path prefix (no open redirects, no protocol-relative or javascript: URLs)
+ * - State is HMAC-signed and expires, so it can't be forged or replayed later
+ * - The nonce cookie ties the callback to the browser that started the login
+ *   (prevents login CSRF / session fixation); it is used once
+ * - Invalid state never fails open: callers fall back to frontendUrl
+ */
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/** Cookie holding the login nonce (`__Host-` prefixed in production) */
+export const LOGIN_STATE_COOKIE = 'auth_state';
+
+export interface LoginState {
+  /** Absolute URL to redirect to after login (query string included) */
+  returnTo: string;
+  /** Random value also stored in the browser's login cookie */
+  nonce: string;
+  /** Expiry in ms since the epoch */
+  expiresAt: number;
+}
+
+interface AllowedTarget {
+  origin: string;
+  path: string;
+}
+
+/**
+ * Create a check that resolves a returnTo value to an allowed absolute URL
+ * Entries are origins ('https://app.example.com') or origin + path prefix
+ * ('https://app.example.com/dashboard'). Returns null if not allowed.
+ */
+export function createReturnToPolicy(allowed: string[], frontendUrl: string) {
+  const targets: AllowedTarget[] = allowed.map((entry) => {
+    let url: URL;
+    try {
+      url = new URL(entry);
+    } catch {
+      throw new Error(`AuthRoutes: invalid allowedReturnTo entry '${entry}'`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error(`AuthRoutes: invalid allowedReturnTo entry '${entry}'`);
+    }
+    return { origin: url.origin, path: url.pathname.replace(/\/+$/, '') };
+  });
+
+  return (value: string): string | null => {
+    // Backslashes are treated as slashes by browsers ('/\evil.com')
+    if (!value || value.includes('\\')) return null;
+
+    let url: URL;
+    try {
+      url = new URL(value, frontendUrl);
+    } catch {
+      return null;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    if (url.username || url.password) return null;
+
+    const allowedTarget = targets.some(target =>
+      url.origin === target.origin &&
+      (url.pathname === target.path || url.pathname.startsWith(`${target.path}/`) || target.path === '')
+    );
+    return allowedTarget ? url.href : null;
+  };
+}
+
+/**
+ * Sign a login state: base64url(JSON).HMAC
+ */
+export function signLoginState(state: LoginState, secret: string): string {
+  const payload = Buffer.from(JSON.stringify({ r: state.returnTo, n: state.nonce, e: state.expiresAt })).toString('base64url');
+  const signature = createHmac('sha256', secret).update(payload).digest('base64url');
+  return `${payload}.${signature}`;
+}
+
+/**
+ * Check a state's nonce against the login cookie (constant time)
+ */
+export function isNonceMatch(state: LoginState, cookie: string | undefined): boolean {
+  if (!cookie) return false;
+  const expected = Buffer.from(state.nonce);
+  const actual = Buffer.from(cookie);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Verify a signed login state (null if forged, malformed or expired)
+ */
+export function verifyLoginState(value: string | undefined, secret: string): LoginState | null {
+  if (!value) return null;
+
+  const [payload, signature, extra] = value.split('.');
+  if (!payload || !signature || extra !== undefined) return null;
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(payload).digest('base64url'));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const { r, n, e } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof r !== 'string' || typeof n !== 'string' || !n) return null;
+    if (typeof e !== 'number' || e <= Date.now()) return null;
+    return { returnTo: r, nonce: n, expiresAt: e };
+  } catch {
+    return null;
+  }
+}
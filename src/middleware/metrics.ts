@@ -3,30 +3,64 @@
  * Logs all requests with detailed info for security analysis
  */
 import type { Context, Next } from 'hono';
-import type { RequestMetric, AggregatedStats } from '../types/metrics.js';
+import type {
+  RequestMetric,
+  AggregatedStats,
+  IpBan,
+  LatencyPercentiles,
+  TimeSeriesBucket,
+} from '../types/metrics.js';
 import { getClientIP, isInternalRequest } from '../utils/ip.js';
+import { createQuantileSketch, addToSketch, getQuantile } from '../utils/quantile.js';
+import type { QuantileSketch } from '../utils/quantile.js';
+import { SCHEMA_VERSION, formatValidationErrors, validateRequestMetric } from '../utils/schema.js';
+import { detectRequest, resolveDetectionRules } from './detection.js';
+import type { DetectionOptions } from './detection.js';
+import type { MetricsSink } from './metricsSink.js';
 
-// Bot detection patterns (external bots/crawlers)
-const BOT_PATTERNS = [
-  /bot|crawler|spider|scraper/i,
-  /googlebot|bingbot|slurp|duckduckbot|baiduspider/i,
-  /facebookexternalhit|twitterbot|linkedinbot/i,
-  /semrush|ahrefs|moz|dotbot/i,
-];
-
-// Suspicious path patterns (common attack vectors)
-const SUSPICIOUS_PATTERNS = [
-  /\.(php|asp|aspx|jsp|cgi|pl)$/i,
-  /wp-admin|wp-login|wp-content|wordpress/i,
-  /phpmyadmin|adminer|pma/i,
-  /\.env|\.git|\.htaccess|\.aws/i,
-  /config\.json|package\.json|composer\.json/i,
-  /\/\.\.|%2e%2e|%252e/i,  // Path traversal
-  /<script|javascript:|data:/i,  // XSS attempts
-  /union.*select|insert.*into|drop.*table/i,  // SQL injection
-  /nikto|sqlmap|nmap|masscan/i,  // Scanning tools
-  /gobuster|dirbuster|dirb|ffuf/i,  // Directory bruteforce
-];
+// Default latency histogram buckets in seconds (Prometheus client defaults)
+const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Cap on distinct series; further routes are folded into route="other"
+const MAX_SERIES = 1000;
+
+// Cap on per-path latency sketches (same as requestsByIP)
+const MAX_PATH_SKETCHES = 100;
+
+// Cap on penalty box strikes kept per IP and kind (far above any sensible threshold)
+const MAX_STRIKES_PER_IP = 1000;
+
+// Rolling time series length
+const MINUTE_BUCKETS = 60;
+const HOUR_BUCKETS = 48;
+
+/**
+ * Cumulative counters for one service/method/route/status class combination
+ * Used for Prometheus exposition (see getPrometheusMetrics)
+ */
+export interface RequestSeries {
+  service: string;
+  method: string;
+  route: string;
+  /** '2xx', '3xx', '4xx' or '5xx' */
+  statusClass: string;
+  count: number;
+  durationSumMs: number;
+  /** Counts per latency bucket (same order as MetricsStore.latencyBuckets, not cumulative) */
+  buckets: number[];
+  bot: number;
+  suspicious: number;
+  internal: number;
+}
+
+/**
+ * Penalty box strikes for one IP (ms timestamps, oldest first)
+ * Kept apart from the metrics ring buffer so eviction doesn't forget them
+ */
+export interface IpStrikes {
+  suspicious: number[];
+  rateLimited: number[];
+}
 
 /**
  * Metrics store - holds recent requests in memory
@@ -35,12 +69,33 @@ export interface MetricsStore {
   metrics: RequestMetric[];
   stats: AggregatedStats;
   maxMetrics: number;
+  /** IP bans applied by penaltyBox (kept after expiry for escalation) */
+  bans: Record<string, IpBan>;
+  /** Strikes per IP read by penaltyBox (pruned by its window) */
+  strikes: Record<string, IpStrikes>;
+  /** Latency histogram bucket upper bounds in seconds */
+  latencyBuckets: number[];
+  /** Cumulative per-route series (keyed by service/method/route/status class) */
+  series: Record<string, RequestSeries>;
+  /** Latency sketch for external requests (ms) */
+  latencySketch: QuantileSketch;
+  /** Latency sketches per path (ms) */
+  pathLatencySketches: Record<string, QuantileSketch>;
+  /** Rolling per-minute buckets (last hour), oldest first */
+  minuteBuckets: TimeSeriesBucket[];
+  /** Rolling per-hour buckets (last two days), oldest first */
+  hourBuckets: TimeSeriesBucket[];
+}
+
+export interface MetricsStoreOptions {
+  /** Latency histogram bucket upper bounds in seconds (default: Prometheus client defaults) */
+  latencyBuckets?: number[];
 }
 
 /**
  * Create a new metrics store
  */
-export function createMetricsStore(maxMetrics = 1000): MetricsStore {
+export function createMetricsStore(maxMetrics = 1000, options: MetricsStoreOptions = {}): MetricsStore {
   return {
     metrics: [],
     stats: {
@@ -56,25 +111,137 @@ export function createMetricsStore(maxMetrics = 1000): MetricsStore {
       lastUpdated: new Date().toISOString(),
     },
     maxMetrics,
+    bans: {},
+    strikes: {},
+    latencyBuckets: [...(options.latencyBuckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b),
+    series: {},
+    latencySketch: createQuantileSketch(),
+    pathLatencySketches: {},
+    minuteBuckets: [],
+    hourBuckets: [],
   };
 }
 
-function isBot(userAgent: string, ip: string): boolean {
-  if (isInternalRequest(ip)) return false;
-  if (!userAgent) return true;
-  return BOT_PATTERNS.some(pattern => pattern.test(userAgent));
+// Route bucket for requests that matched no concrete route (404s, scans)
+const UNMATCHED_ROUTE = 'other';
+
+// Patterns of global middleware (app.use('*', ...)), which every request matches
+const GLOBAL_PATTERNS = ['*', '/*'];
+
+/**
+ * Get the route pattern that matched a request (e.g. '/api/users/:id' or '/static/*')
+ * Global middleware patterns are skipped; requests that only matched those go
+ * into the 'other' bucket so raw paths never become keys
+ */
+function getRouteTemplate(c: Context): string {
+  const routes = c.req.matchedRoutes;
+  for (let i = routes.length - 1; i >= 0; i--) {
+    if (!GLOBAL_PATTERNS.includes(routes[i].path)) return routes[i].path;
+  }
+  return UNMATCHED_ROUTE;
 }
 
-function checkSuspicious(path: string, userAgent: string): { suspicious: boolean; reason?: string } {
-  for (const pattern of SUSPICIOUS_PATTERNS) {
-    if (pattern.test(path)) {
-      return { suspicious: true, reason: `path_match:${pattern.source.slice(0, 20)}` };
-    }
-    if (pattern.test(userAgent)) {
-      return { suspicious: true, reason: `ua_match:${pattern.source.slice(0, 20)}` };
-    }
+/**
+ * Path bucket used for per-path aggregation
+ * Metrics recorded before route templates existed fall back to path truncation
+ */
+function getPathKey(metric: RequestMetric): string {
+  return metric.route ?? metric.path.split('/').slice(0, 4).join('/');
+}
+
+/**
+ * Add a metric to a rolling bucket list (buckets of `sizeMs`, at most `maxBuckets`)
+ */
+function updateTimeBuckets(
+  buckets: TimeSeriesBucket[],
+  metric: RequestMetric,
+  sizeMs: number,
+  maxBuckets: number
+) {
+  const start = Math.floor(Date.parse(metric.timestamp) / sizeMs) * sizeMs;
+  const last = buckets.length > 0 ? Date.parse(buckets[buckets.length - 1].start) : start;
+  const newest = Math.max(last, start);
+
+  // Too old for the rolling window
+  if (start <= newest - maxBuckets * sizeMs) return;
+
+  // Search from the newest bucket (metrics arrive mostly in order)
+  let index = buckets.length;
+  while (index > 0 && Date.parse(buckets[index - 1].start) > start) index--;
+
+  let bucket = index > 0 && Date.parse(buckets[index - 1].start) === start
+    ? buckets[index - 1]
+    : undefined;
+  if (!bucket) {
+    bucket = { start: new Date(start).toISOString(), requests: 0, errors: 0, suspicious: 0 };
+    buckets.splice(index, 0, bucket);
+  }
+
+  bucket.requests++;
+  if (metric.status >= 500) bucket.errors++;
+  if (metric.isSuspicious) bucket.suspicious++;
+
+  // Drop buckets that fell out of the rolling window
+  while (Date.parse(buckets[0].start) <= newest - maxBuckets * sizeMs) {
+    buckets.shift();
+  }
+}
+
+function updateSeries(store: MetricsStore, metric: RequestMetric) {
+  const statusClass = `${Math.floor(metric.status / 100)}xx`;
+  let route = getPathKey(metric);
+  let key = `${metric.service} ${metric.method} ${route} ${statusClass}`;
+
+  if (!store.series[key] && Object.keys(store.series).length >= MAX_SERIES) {
+    route = 'other';
+    key = `${metric.service} ${metric.method} ${route} ${statusClass}`;
+  }
+
+  let series = store.series[key];
+  if (!series) {
+    series = {
+      service: metric.service,
+      method: metric.method,
+      route,
+      statusClass,
+      count: 0,
+      durationSumMs: 0,
+      buckets: store.latencyBuckets.map(() => 0),
+      bot: 0,
+      suspicious: 0,
+      internal: 0,
+    };
+    store.series[key] = series;
+  }
+
+  series.count++;
+  series.durationSumMs += metric.durationMs;
+  const bucket = store.latencyBuckets.findIndex(le => metric.durationMs / 1000 <= le);
+  if (bucket !== -1) series.buckets[bucket]++;
+  if (metric.isBot) series.bot++;
+  if (metric.isSuspicious) series.suspicious++;
+  if (metric.isInternal) series.internal++;
+}
+
+/**
+ * Record a suspicious or rate limited external request as a strike for its IP
+ * Requests during an active ban never count towards the next one, so they
+ * aren't recorded; each list keeps only the newest MAX_STRIKES_PER_IP
+ */
+function recordStrike(store: MetricsStore, metric: RequestMetric) {
+  if (metric.isInternal) return;
+  const kind = metric.isSuspicious ? 'suspicious' : metric.status === 429 ? 'rateLimited' : undefined;
+  if (!kind) return;
+
+  const time = Date.parse(metric.timestamp);
+  const ban = store.bans[metric.ip];
+  if (ban && Date.parse(ban.expiresAt) > time) return;
+
+  const strikes = store.strikes[metric.ip] ??= { suspicious: [], rateLimited: [] };
+  strikes[kind].push(time);
+  if (strikes[kind].length > MAX_STRIKES_PER_IP) {
+    strikes[kind].splice(0, strikes[kind].length - MAX_STRIKES_PER_IP);
   }
-  return { suspicious: false };
 }
 
 function updateAggregatedStats(store: MetricsStore, metric: RequestMetric) {
@@ -91,7 +258,7 @@ function updateAggregatedStats(store: MetricsStore, metric: RequestMetric) {
     (stats.requestsByStatus[metric.status] || 0) + 1;
 
   if (!metric.isInternal) {
-    const pathKey = metric.path.split('/').slice(0, 4).join('/');
+    const pathKey = getPathKey(metric);
     stats.requestsByPath[pathKey] =
       (stats.requestsByPath[pathKey] || 0) + 1;
   }
@@ -110,25 +277,45 @@ function updateAggregatedStats(store: MetricsStore, metric: RequestMetric) {
     const externalCount = stats.externalRequests;
     stats.avgDurationMs =
       (stats.avgDurationMs * (externalCount - 1) + metric.durationMs) / externalCount;
+
+    addToSketch(store.latencySketch, metric.durationMs);
+    const pathKey = getPathKey(metric);
+    let pathSketch = store.pathLatencySketches[pathKey];
+    if (!pathSketch && Object.keys(store.pathLatencySketches).length < MAX_PATH_SKETCHES) {
+      pathSketch = createQuantileSketch();
+      store.pathLatencySketches[pathKey] = pathSketch;
+    }
+    if (pathSketch) addToSketch(pathSketch, metric.durationMs);
+
+    updateTimeBuckets(store.minuteBuckets, metric, 60 * 1000, MINUTE_BUCKETS);
+    updateTimeBuckets(store.hourBuckets, metric, 60 * 60 * 1000, HOUR_BUCKETS);
   }
 
   stats.lastUpdated = new Date().toISOString();
+
+  updateSeries(store, metric);
 }
 
-export interface MetricsLoggerOptions {
+export interface MetricsLoggerOptions extends DetectionOptions {
   store: MetricsStore;
   /**
    * Function to get user ID from context (optional)
    * If not provided, userId will be undefined
    */
   getUserId?: (c: Context) => string | undefined;
+  /**
+   * Persistent sink for metrics (optional)
+   * Use rehydrateMetricsStore at startup to restore the store from it
+   */
+  sink?: MetricsSink;
 }
 
 /**
  * Create metrics logger middleware
  */
 export function metricsLogger(serviceName: string, options: MetricsLoggerOptions) {
-  const { store, getUserId } = options;
+  const { store, getUserId, sink } = options;
+  const rules = resolveDetectionRules(options);
 
   return async (c: Context, next: Next) => {
     const start = Date.now();
@@ -141,26 +328,29 @@ export function metricsLogger(serviceName: string, options: MetricsLoggerOptions
 
     const duration = Date.now() - start;
     const status = c.res.status;
+    const route = getRouteTemplate(c);
     const userId = getUserId?.(c);
 
     const internalCheck = isInternalRequest(ip);
-    const botCheck = isBot(userAgent, ip);
-    const suspiciousCheck = checkSuspicious(path, userAgent);
+    const detection = detectRequest(c, ip, rules);
 
     const metric: RequestMetric = {
       timestamp: new Date().toISOString(),
       service: serviceName,
       method,
       path,
+      route,
       status,
       durationMs: duration,
       ip,
       userAgent: userAgent.slice(0, 200),
       userId,
-      isBot: botCheck,
+      isBot: detection.isBot,
       isInternal: internalCheck,
-      isSuspicious: suspiciousCheck.suspicious,
-      suspiciousReason: suspiciousCheck.reason,
+      isSuspicious: detection.isSuspicious,
+      matchedRules: detection.isSuspicious ? detection.matchedRules : undefined,
+      severity: detection.severity,
+      schemaVersion: SCHEMA_VERSION,
     };
 
     store.metrics.push(metric);
@@ -169,13 +359,53 @@ export function metricsLogger(serviceName: string, options: MetricsLoggerOptions
     }
 
     updateAggregatedStats(store, metric);
+    recordStrike(store, metric);
+
+    if (sink) {
+      // Persisting must never fail the request
+      Promise.resolve()
+        .then(() => sink.write(metric))
+        .catch(err => console.error('[METRICS] Failed to persist metric:', err));
+    }
 
-    if (suspiciousCheck.suspicious) {
-      console.warn(`[SUSPICIOUS] ${ip} ${method} ${path} - ${suspiciousCheck.reason}`);
+    if (detection.isSuspicious) {
+      console.warn(`[SUSPICIOUS] ${ip} ${method} ${path} - ${detection.matchedRules.join(',')} (${detection.severity})`);
     }
   };
 }
 
+/**
+ * Rebuild a metrics store from a sink (call once at startup, before serving)
+ * Aggregates are recomputed from every stored metric within retention;
+ * the most recent maxMetrics are kept in memory.
+ * Stored metrics that fail validation (corrupt, or an incompatible schemaVersion) are skipped
+ */
+export async function rehydrateMetricsStore(store: MetricsStore, sink: MetricsSink) {
+  let skipped = 0;
+  let firstError: string | undefined;
+
+  await sink.replay((stored) => {
+    const result = validateRequestMetric(stored);
+    if (!result.ok) {
+      skipped++;
+      firstError ??= formatValidationErrors(result.errors);
+      return;
+    }
+
+    const metric = result.value;
+    store.metrics.push(metric);
+    if (store.metrics.length > store.maxMetrics) {
+      store.metrics.shift();
+    }
+    updateAggregatedStats(store, metric);
+    recordStrike(store, metric);
+  });
+
+  if (skipped > 0) {
+    console.warn(`[METRICS] Skipped ${skipped} invalid stored metrics (first: ${firstError})`);
+  }
+}
+
 /**
  * Get recent metrics from store
  */
@@ -187,7 +417,46 @@ export function getRecentMetrics(store: MetricsStore, limit = 100): RequestMetri
  * Get aggregated stats from store
  */
 export function getAggregatedStats(store: MetricsStore): AggregatedStats {
-  return { ...store.stats };
+  const latencyByPath: Record<string, LatencyPercentiles> = {};
+  for (const [path, sketch] of Object.entries(store.pathLatencySketches)) {
+    latencyByPath[path] = getPercentiles(sketch);
+  }
+  return {
+    ...store.stats,
+    latency: getPercentiles(store.latencySketch),
+    latencyByPath,
+  };
+}
+
+function getPercentiles(sketch: QuantileSketch): LatencyPercentiles {
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    p50: round(getQuantile(sketch, 0.5)),
+    p90: round(getQuantile(sketch, 0.9)),
+    p99: round(getQuantile(sketch, 0.99)),
+  };
+}
+
+/**
+ * Get rolling request/error/suspicious counts from store
+ * Gaps are filled with empty buckets so the series can be charted directly
+ */
+export function getTimeSeries(store: MetricsStore, resolution: 'minute' | 'hour'): TimeSeriesBucket[] {
+  const sizeMs = resolution === 'minute' ? 60 * 1000 : 60 * 60 * 1000;
+  const count = resolution === 'minute' ? MINUTE_BUCKETS : HOUR_BUCKETS;
+  const buckets = resolution === 'minute' ? store.minuteBuckets : store.hourBuckets;
+
+  const byStart = new Map(buckets.map(bucket => [Date.parse(bucket.start), bucket]));
+  const newest = Math.floor(Date.now() / sizeMs) * sizeMs;
+
+  const series: TimeSeriesBucket[] = [];
+  for (let start = newest - (count - 1) * sizeMs; start <= newest; start += sizeMs) {
+    const bucket = byStart.get(start);
+    series.push(bucket
+      ? { ...bucket }
+      : { start: new Date(start).toISOString(), requests: 0, errors: 0, suspicious: 0 });
+  }
+  return series;
 }
 
 /**
@@ -206,6 +475,7 @@ export function getRequestsByIP(store: MetricsStore, ip: string, limit = 50): Re
 
 /**
  * Reset metrics store
+ * Bans are kept, use liftBan to clear them
  */
 export function resetMetrics(store: MetricsStore) {
   store.metrics.length = 0;
@@ -221,4 +491,91 @@ export function resetMetrics(store: MetricsStore) {
     avgDurationMs: 0,
     lastUpdated: new Date().toISOString(),
   };
+  store.series = {};
+  store.latencySketch = createQuantileSketch();
+  store.pathLatencySketches = {};
+  store.minuteBuckets = [];
+  store.hourBuckets = [];
+  store.strikes = {};
+}
+
+/**
+ * Escape a Prometheus label value
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+/**
+ * Render store counters in Prometheus text exposition format (version 0.0.4)
+ */
+export function getPrometheusMetrics(store: MetricsStore): string {
+  const series = Object.values(store.series);
+  const lines: string[] = [];
+
+  lines.push('# HELP http_requests_total Total HTTP requests');
+  lines.push('# TYPE http_requests_total counter');
+  for (const entry of series) {
+    const labels = formatLabels({ service: entry.service, method: entry.method, route: entry.route, status: entry.statusClass });
+    lines.push(`http_requests_total${labels} ${entry.count}`);
+  }
+
+  // Histogram is per service/method/route (status classes merged)
+  const histograms = new Map<string, { labels: Record<string, string>; buckets: number[]; sumMs: number; count: number }>();
+  for (const entry of series) {
+    const key = `${entry.service} ${entry.method} ${entry.route}`;
+    let histogram = histograms.get(key);
+    if (!histogram) {
+      histogram = {
+        labels: { service: entry.service, method: entry.method, route: entry.route },
+        buckets: store.latencyBuckets.map(() => 0),
+        sumMs: 0,
+        count: 0,
+      };
+      histograms.set(key, histogram);
+    }
+    entry.buckets.forEach((n, i) => { histogram!.buckets[i] += n; });
+    histogram.sumMs += entry.durationSumMs;
+    histogram.count += entry.count;
+  }
+
+  lines.push('# HELP http_request_duration_seconds HTTP request latency');
+  lines.push('# TYPE http_request_duration_seconds histogram');
+  for (const histogram of histograms.values()) {
+    let cumulative = 0;
+    store.latencyBuckets.forEach((le, i) => {
+      cumulative += histogram.buckets[i];
+      const labels = formatLabels({ ...histogram.labels, le: le.toString() });
+      lines.push(`http_request_duration_seconds_bucket${labels} ${cumulative}`);
+    });
+    lines.push(`http_request_duration_seconds_bucket${formatLabels({ ...histogram.labels, le: '+Inf' })} ${histogram.count}`);
+    lines.push(`http_request_duration_seconds_sum${formatLabels(histogram.labels)} ${histogram.sumMs / 1000}`);
+    lines.push(`http_request_duration_seconds_count${formatLabels(histogram.labels)} ${histogram.count}`);
+  }
+
+  // Flag counters per service
+  const flags: Array<['bot' | 'suspicious' | 'internal', string]> = [
+    ['bot', 'Requests detected as bots'],
+    ['suspicious', 'Requests flagged as suspicious'],
+    ['internal', 'Requests from internal network'],
+  ];
+  for (const [flag, help] of flags) {
+    const name = `http_requests_${flag}_total`;
+    const byService = new Map<string, number>();
+    for (const entry of series) {
+      byService.set(entry.service, (byService.get(entry.service) ?? 0) + entry[flag]);
+    }
+    lines.push(`# HELP ${name} ${help}`);
+    lines.push(`# TYPE ${name} counter`);
+    for (const [service, count] of byService) {
+      lines.push(`${name}${formatLabels({ service })} ${count}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
 }
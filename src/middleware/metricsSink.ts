@@ -0,0 +1,290 @@
+/**
+ * Metrics Sinks
+ * Persistent storage for request metrics so restarts don't wipe history
+ *
+ * Supports:
+ * - Rotating append-only JSONL files
+ * - Embedded SQLite (node:sqlite or better-sqlite3)
+ *
+ * Both apply a retention policy and can replay stored metrics into a
+ * MetricsStore at startup (see rehydrateMetricsStore).
+ */
+import { createReadStream } from 'node:fs';
+import { appendFile, mkdir, readdir, stat, unlink } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import type { RequestMetric } from '../types/metrics.js';
+
+/**
+ * Persistent destination for request metrics
+ */
+export interface MetricsSink {
+  /** Persist a metric (may be buffered) */
+  write(metric: RequestMetric): void | Promise<void>;
+  /** Replay stored metrics within retention, oldest first */
+  replay(onMetric: (metric: RequestMetric) => void): Promise<void>;
+  /** Apply the retention policy now */
+  prune(): Promise<void>;
+  /** Flush buffered metrics and stop background timers */
+  close(): Promise<void>;
+}
+
+export interface JsonlMetricsSinkOptions {
+  /** Directory for metrics files (created if missing) */
+  directory: string;
+  /** File name prefix (default: 'metrics') */
+  prefix?: string;
+  /** Start a new file after this many bytes (default: 10 MB) */
+  maxFileBytes?: number;
+  /** Delete files last written more than this many days ago (default: 30) */
+  maxAgeDays?: number;
+  /** Keep at most this many files (default: 100) */
+  maxFiles?: number;
+  /** How often buffered lines are written, in ms (default: 1000) */
+  flushIntervalMs?: number;
+}
+
+/**
+ * Create a sink that appends metrics to rotating JSONL files
+ * Files are named `<prefix>-<start time>.jsonl` so they sort chronologically
+ *
+ * @example
+ * const sink = createJsonlMetricsSink({ directory: './data/metrics' });
+ * await rehydrateMetricsStore(metricsStore, sink);
+ *
+ * app.use('*', metricsLogger('my-service', { store: metricsStore, sink }));
+ */
+export function createJsonlMetricsSink(options: JsonlMetricsSinkOptions): MetricsSink {
+  const {
+    directory,
+    prefix = 'metrics',
+    maxFileBytes = 10 * 1024 * 1024,
+    maxAgeDays = 30,
+    maxFiles = 100,
+    flushIntervalMs = 1000,
+  } = options;
+
+  let buffer: string[] = [];
+  let currentFile: string | null = null;
+  let currentBytes = 0;
+  // Serializes file operations so lines are never interleaved
+  let queue: Promise<void> = Promise.resolve();
+  let ready: Promise<void> | null = null;
+
+  const ensureDirectory = () => {
+    ready ??= mkdir(directory, { recursive: true }).then(() => undefined);
+    return ready;
+  };
+
+  const listFiles = async (): Promise<string[]> => {
+    await ensureDirectory();
+    const names = await readdir(directory);
+    return names
+      .filter(name => name.startsWith(`${prefix}-`) && name.endsWith('.jsonl'))
+      .sort()
+      .map(name => join(directory, name));
+  };
+
+  const applyRetention = async () => {
+    const files = await listFiles();
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+    for (const [index, file] of files.entries()) {
+      if (file === currentFile) continue;
+      const tooMany = files.length - index > maxFiles;
+      const tooOld = (await stat(file)).mtimeMs < cutoff;
+      if (tooMany || tooOld) {
+        await unlink(file).catch(() => undefined);
+      }
+    }
+  };
+
+  const rotate = async () => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    currentFile = join(directory, `${prefix}-${stamp}.jsonl`);
+    currentBytes = 0;
+    await applyRetention();
+  };
+
+  const flush = () => {
+    if (buffer.length === 0) return queue;
+    const chunk = buffer.join('');
+    buffer = [];
+
+    queue = queue.then(async () => {
+      await ensureDirectory();
+      const bytes = Buffer.byteLength(chunk);
+      if (!currentFile || currentBytes + bytes > maxFileBytes) {
+        await rotate();
+      }
+      await appendFile(currentFile!, chunk);
+      currentBytes += bytes;
+    }).catch(err => {
+      console.error('[METRICS] Failed to write metrics file:', err);
+    });
+    return queue;
+  };
+
+  const timer = setInterval(() => { void flush(); }, flushIntervalMs);
+  // Prevent interval from keeping process alive
+  timer.unref?.();
+
+  return {
+    write(metric) {
+      buffer.push(JSON.stringify(metric) + '\n');
+    },
+
+    async replay(onMetric) {
+      await flush();
+      const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+      for (const file of await listFiles()) {
+        const lines = createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+        for await (const line of lines) {
+          if (!line) continue;
+          try {
+            const metric = JSON.parse(line) as RequestMetric;
+            if (Date.parse(metric.timestamp) >= cutoff) onMetric(metric);
+          } catch {
+            // Skip partially written or corrupt lines
+          }
+        }
+      }
+    },
+
+    async prune() {
+      await flush();
+      queue = queue.then(applyRetention);
+      await queue;
+    },
+
+    async close() {
+      clearInterval(timer);
+      await flush();
+    },
+  };
+}
+
+/** Value that can be bound to a SQLite statement parameter */
+export type SqliteValue = string | number | null;
+
+/**
+ * Minimal prepared statement shape (node:sqlite StatementSync, better-sqlite3 Statement)
+ */
+export interface SqliteStatement {
+  run(...params: SqliteValue[]): unknown;
+  all(...params: SqliteValue[]): unknown[];
+}
+
+/**
+ * Minimal SQLite database shape (node:sqlite DatabaseSync, better-sqlite3 Database)
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteMetricsSinkOptions {
+  /** Open database handle */
+  db: SqliteDatabase;
+  /** Table name (default: 'request_metrics') */
+  table?: string;
+  /** Delete rows older than this many days (default: 30) */
+  maxAgeDays?: number;
+  /** Keep at most this many rows (default: 1,000,000) */
+  maxRows?: number;
+  /** How often retention runs, in ms (default: 1 hour) */
+  pruneIntervalMs?: number;
+}
+
+/**
+ * Create a sink that stores metrics in an embedded SQLite database
+ *
+ * @example
+ * import { DatabaseSync } from 'node:sqlite';
+ *
+ * const sink = createSqliteMetricsSink({ db: new DatabaseSync('./data/metrics.db') });
+ * await rehydrateMetricsStore(metricsStore, sink);
+ *
+ * app.use('*', metricsLogger('my-service', { store: metricsStore, sink }));
+ */
+export function createSqliteMetricsSink(options: SqliteMetricsSinkOptions): MetricsSink {
+  const {
+    db,
+    table = 'request_metrics',
+    maxAgeDays = 30,
+    maxRows = 1_000_000,
+    pruneIntervalMs = 60 * 60 * 1000,
+  } = options;
+
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error('SqliteMetricsSink: table must be a plain identifier');
+  }
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${table} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp TEXT NOT NULL,
+      ip TEXT NOT NULL,
+      is_suspicious INTEGER NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS ${table}_timestamp ON ${table} (timestamp);
+  `);
+
+  const insert = db.prepare(
+    `INSERT INTO ${table} (timestamp, ip, is_suspicious, data) VALUES (?, ?, ?, ?)`
+  );
+  const selectPage = db.prepare(
+    `SELECT id, data FROM ${table} WHERE id > ? AND timestamp >= ? ORDER BY id LIMIT ?`
+  );
+  const deleteOlder = db.prepare(`DELETE FROM ${table} WHERE timestamp < ?`);
+  const deleteExcess = db.prepare(
+    `DELETE FROM ${table} WHERE id <= (SELECT MAX(id) FROM ${table}) - ?`
+  );
+
+  const getCutoff = () => new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const applyRetention = async () => {
+    deleteOlder.run(getCutoff());
+    deleteExcess.run(maxRows);
+  };
+
+  const timer = setInterval(() => {
+    applyRetention().catch(err => console.error('[METRICS] Failed to prune metrics table:', err));
+  }, pruneIntervalMs);
+  // Prevent interval from keeping process alive
+  timer.unref?.();
+
+  return {
+    write(metric) {
+      insert.run(metric.timestamp, metric.ip, metric.isSuspicious ? 1 : 0, JSON.stringify(metric));
+    },
+
+    async replay(onMetric) {
+      const cutoff = getCutoff();
+      const pageSize = 1000;
+      let lastId = 0;
+
+      // Page through rows so large tables aren't loaded at once
+      for (;;) {
+        const rows = selectPage.all(lastId, cutoff, pageSize) as Array<{ id: number; data: string }>;
+        for (const row of rows) {
+          try {
+            onMetric(JSON.parse(row.data) as RequestMetric);
+          } catch {
+            // Skip corrupt rows
+          }
+        }
+        if (rows.length < pageSize) break;
+        lastId = Number(rows[rows.length - 1].id);
+      }
+    },
+
+    prune: applyRetention,
+
+    async close() {
+      clearInterval(timer);
+    },
+  };
+}
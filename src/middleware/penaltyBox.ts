@@ -0,0 +1,197 @@
+/**
+ * Penalty Box Middleware
+ * Temporarily bans IPs that keep tripping suspicious-request detection or rate limits
+ *
+ * Reads strikes (suspicious or rate limited requests per IP) that metricsLogger
+ * records in the metrics store, so it must be registered after metricsLogger
+ * (blocked requests are then still logged).
+ *
+ * SECURITY NOTES:
+ * - Internal IPs (isInternalRequest) and unidentified clients are never banned
+ * - Ban durations escalate for repeat offenders
+ * - Blocked requests get a generic error message
+ */
+import type { Context, Next } from 'hono';
+import type { IpBan } from '../types/metrics.js';
+import type { MetricsStore } from './metrics.js';
+import { getClientIP, isInternalRequest } from '../utils/ip.js';
+
+export interface PenaltyBoxOptions {
+  /** Metrics store shared with metricsLogger */
+  store: MetricsStore;
+  /** Strikes within the window that trigger a ban (default: 5, at most 1000) */
+  threshold?: number;
+  /** Strike counting window in seconds (default: 600) */
+  window?: number;
+  /**
+   * Ban durations in seconds, one per offense (default: 5 min, 1 hour, 1 day)
+   * Offenses past the end of the list reuse the last duration
+   */
+  banDurations?: number[];
+  /** Count 429 responses as strikes (default: true) */
+  countRateLimited?: boolean;
+  /** Seconds after a ban expires before its offense count is forgotten (default: 1 day) */
+  forgetAfter?: number;
+  /** Extra IPs that are never banned (internal IPs are always exempt) */
+  allowlist?: string[];
+}
+
+/**
+ * Check if an IP can be banned at all
+ */
+function isBannable(ip: string, allowlist: string[]): boolean {
+  // Without a real client IP every request would share one ban
+  if (!ip || ip === 'unknown') return false;
+  if (isInternalRequest(ip)) return false;
+  return !allowlist.includes(ip);
+}
+
+/**
+ * Get the strikes recorded for an IP since a point in time
+ * Strikes older than `windowStart` are dropped on the way
+ */
+function getStrikes(
+  store: MetricsStore,
+  ip: string,
+  windowStart: number,
+  since: number,
+  countRateLimited: boolean
+): { suspicious: number; rateLimited: number } {
+  const strikes = store.strikes[ip];
+  if (!strikes) return { suspicious: 0, rateLimited: 0 };
+
+  strikes.suspicious = strikes.suspicious.filter(t => t > windowStart);
+  strikes.rateLimited = strikes.rateLimited.filter(t => t > windowStart);
+  if (strikes.suspicious.length === 0 && strikes.rateLimited.length === 0) {
+    delete store.strikes[ip];
+  }
+
+  return {
+    suspicious: strikes.suspicious.filter(t => t > since).length,
+    rateLimited: countRateLimited ? strikes.rateLimited.filter(t => t > since).length : 0,
+  };
+}
+
+/**
+ * Drop strikes of IPs that haven't struck within the window
+ */
+function pruneStrikes(store: MetricsStore, windowStart: number) {
+  for (const [ip, strikes] of Object.entries(store.strikes)) {
+    const newest = Math.max(strikes.suspicious.at(-1) ?? 0, strikes.rateLimited.at(-1) ?? 0);
+    if (newest <= windowStart) {
+      delete store.strikes[ip];
+    }
+  }
+}
+
+/**
+ * Drop bans whose offenses have been forgotten
+ */
+function pruneBans(store: MetricsStore, now: number, forgetAfter: number) {
+  for (const [ip, ban] of Object.entries(store.bans)) {
+    if (Date.parse(ban.expiresAt) + forgetAfter * 1000 < now) {
+      delete store.bans[ip];
+    }
+  }
+}
+
+/**
+ * Create penalty box middleware
+ *
+ * @example
+ * const metricsStore = createMetricsStore();
+ *
+ * app.use('*', metricsLogger('my-service', { store: metricsStore }));
+ * app.use('*', penaltyBox({ store: metricsStore, threshold: 5, window: 600 }));
+ */
+export function penaltyBox(options: PenaltyBoxOptions) {
+  const {
+    store,
+    threshold = 5,
+    window = 600,
+    banDurations = [5 * 60, 60 * 60, 24 * 60 * 60],
+    countRateLimited = true,
+    forgetAfter = 24 * 60 * 60,
+    allowlist = [],
+  } = options;
+
+  let lastPrune = Date.now();
+
+  return async (c: Context, next: Next) => {
+    const ip = getClientIP(c);
+    if (!isBannable(ip, allowlist)) {
+      return next();
+    }
+
+    const now = Date.now();
+    const windowStart = now - window * 1000;
+
+    // Forget IPs that stopped striking, at most once per window
+    if (now - lastPrune >= window * 1000) {
+      pruneStrikes(store, windowStart);
+      lastPrune = now;
+    }
+
+    let ban: IpBan | undefined = store.bans[ip];
+
+    // Forget old offenses
+    if (ban && Date.parse(ban.expiresAt) + forgetAfter * 1000 < now) {
+      delete store.bans[ip];
+      ban = undefined;
+    }
+
+    if (!ban || Date.parse(ban.expiresAt) <= now) {
+      // Only strikes after the last ban ended count towards a new one
+      const since = Math.max(windowStart, ban ? Date.parse(ban.expiresAt) : 0);
+      const strikes = getStrikes(store, ip, windowStart, since, countRateLimited);
+      const total = strikes.suspicious + strikes.rateLimited;
+
+      if (total >= threshold) {
+        const offenses = (ban?.offenses ?? 0) + 1;
+        const duration = banDurations[Math.min(offenses, banDurations.length) - 1];
+        ban = {
+          ip,
+          bannedAt: new Date(now).toISOString(),
+          expiresAt: new Date(now + duration * 1000).toISOString(),
+          offenses,
+          reason: strikes.suspicious >= strikes.rateLimited
+            ? `suspicious:${total}`
+            : `rate_limited:${total}`,
+        };
+        store.bans[ip] = ban;
+        pruneBans(store, now, forgetAfter);
+        console.warn(`[BANNED] ${ip} for ${duration}s (offense ${offenses}) - ${ban.reason}`);
+      }
+    }
+
+    if (ban && Date.parse(ban.expiresAt) > now) {
+      const retryAfter = Math.ceil((Date.parse(ban.expiresAt) - now) / 1000);
+      c.header('Retry-After', retryAfter.toString());
+      // SECURITY: Generic error message, no ban details leaked
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Get active bans from store
+ */
+export function getActiveBans(store: MetricsStore): IpBan[] {
+  const now = Date.now();
+  return Object.values(store.bans).filter(ban => Date.parse(ban.expiresAt) > now);
+}
+
+/**
+ * Lift an active ban early
+ * The offense count is kept so repeat offenders still escalate, and strikes
+ * recorded before the lift don't count towards a new ban.
+ * Returns false if the IP had no active ban
+ */
+export function liftBan(store: MetricsStore, ip: string): boolean {
+  const ban = store.bans[ip];
+  if (!ban || Date.parse(ban.expiresAt) <= Date.now()) return false;
+  store.bans[ip] = { ...ban, expiresAt: new Date().toISOString() };
+  return true;
+}
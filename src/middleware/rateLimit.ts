@@ -1,93 +1,594 @@
 /**
  * Rate Limiting Middleware
- * Simple in-memory sliding window rate limiter
+ * Rate limiter with pluggable algorithms and storage
  *
  * Supports:
  * - Global rate limits (apply to all routes)
- * - Per-endpoint rate limits (override global for specific paths)
+ * - Per-endpoint rate limits (prefix, glob or :param patterns, optional HTTP methods)
+ * - Stacked rules (e.g. a global budget plus a per-endpoint budget)
+ * - Per-user keys and tiers (anonymous / authenticated / owner / JWT claim)
+ * - Sliding log, sliding window counter, fixed window and token bucket algorithms
+ * - In-memory or shared (Redis-protocol) stores, see rateLimitStore.ts
+ * - Legacy X-RateLimit-* headers, plus opt-in IETF draft RateLimit / RateLimit-Policy headers
  */
 import type { Context, Next } from 'hono';
 import { getClientIP } from '../utils/ip.js';
+import type { AuthUser } from '../types/auth.js';
+import { createRateLimitStore } from './rateLimitStore.js';
+import type { RateLimitStore } from './rateLimitStore.js';
+
+/**
+ * Rate limiting algorithm
+ * - sliding-log: exact, stores every request timestamp (O(limit) memory per key)
+ * - sliding-window-counter: weighted average of current and previous window counts
+ * - fixed-window: one counter per window, resets at window boundaries
+ * - token-bucket: refills `limit` tokens per window, allows bursts up to `burst`
+ */
+export type RateLimitAlgorithm =
+  | 'sliding-log'
+  | 'sliding-window-counter'
+  | 'fixed-window'
+  | 'token-bucket';
 
 export interface RateLimitConfig {
   /** Max requests per window */
   limit: number;
   /** Window size in seconds */
   window: number;
+  /** Algorithm (default: 'sliding-log') */
+  algorithm?: RateLimitAlgorithm;
+  /** Token bucket capacity (default: limit). Only used by 'token-bucket' */
+  burst?: number;
+  /**
+   * Apply this rule in addition to the most specific matching rule instead of
+   * competing with it. A stacked `default` acts as a budget across all paths.
+   */
+  stack?: boolean;
+}
+
+/**
+ * Outcome of a single rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Value for X-RateLimit-Limit */
+  limit: number;
+  /** Requests left after this one */
+  remaining: number;
+  /** Seconds until a request will be allowed again (or the window resets) */
+  resetIn: number;
 }
 
+/**
+ * Limits for one tier (same shape as the top-level limits)
+ */
+export interface RateLimitTier {
+  /** Default rate limit for all routes in this tier */
+  default: RateLimitConfig;
+  /**
+   * Per-endpoint overrides (pattern -> config), see RateLimitOptions.endpoints
+   */
+  endpoints?: Record<string, RateLimitConfig>;
+}
+
+/**
+ * Built-in tier names returned by the default tier resolver
+ */
+export type RateLimitTierName = 'anonymous' | 'authenticated' | 'owner';
+
 export interface RateLimitOptions {
   /** Default rate limit for all routes */
   default: RateLimitConfig;
-  /** Per-endpoint overrides (path prefix -> config) */
+  /**
+   * Per-endpoint overrides (pattern -> config)
+   * - '/api/auth' - path prefix
+   * - '/api/auth/*' - glob, `*` matches anything (trailing '/*' also matches '/api/auth')
+   * - '/api/items/:id/export' - `:param` matches one path segment
+   * - 'POST /api/import' or 'POST|PUT /api/items' - only for these HTTP methods
+   * The most specific matching rule applies, plus every matching rule with `stack: true`.
+   */
   endpoints?: Record<string, RateLimitConfig>;
-  /** Custom key generator (default: IP + path prefix) */
+  /**
+   * Per-tier limits (tier name -> limits)
+   * A configured tier replaces default/endpoints entirely for its requests.
+   * Requests in tiers without an entry use default/endpoints.
+   */
+  tiers?: Partial<Record<RateLimitTierName | (string & {}), RateLimitTier>>;
+  /**
+   * JWT claim holding the tier name (e.g. 'plan')
+   * Checked before the built-in tiers when the user has a string value for it
+   */
+  tierClaim?: string;
+  /** User IDs in the 'owner' tier */
+  ownerUserIds?: string[];
+  /** Custom tier resolver (default: tierClaim > owner > authenticated > anonymous) */
+  tierResolver?: (c: Context, user: AuthUser | null) => string;
+  /** Custom key generator (default: user ID or IP + path prefix) */
   keyGenerator?: (c: Context) => string;
   /** Skip rate limiting for certain requests */
   skip?: (c: Context) => boolean;
+  /**
+   * Also send IETF draft `RateLimit` / `RateLimit-Policy` headers on every response
+   * Default: false (legacy X-RateLimit-* headers only)
+   */
+  standardHeaders?: boolean;
+}
+
+/**
+ * A named rate limit config ('default' or the matching endpoint pattern)
+ */
+interface RateLimitPolicy {
+  name: string;
+  config: RateLimitConfig;
+}
+
+/**
+ * Current quota for one policy, as returned by getRateLimitQuota
+ */
+export interface RateLimitQuota {
+  /** 'default' or the endpoint pattern */
+  endpoint: string;
+  algorithm: RateLimitAlgorithm;
+  /** Window size in seconds */
+  window: number;
+  limit: number;
+  remaining: number;
+  /** Seconds until the quota resets */
+  reset: number;
 }
 
-interface RateLimitEntry {
-  timestamps: number[];
+/**
+ * Get the user set by auth middleware, if any
+ * Rate limiting must run after optionalAuth/requireAuth for this to be set
+ */
+function getContextUser(c: Context): AuthUser | null {
+  return c.get('user') || null;
 }
 
 /**
- * Create a rate limit store
- * Each service should create its own store instance
+ * Default tier resolver
  */
-export function createRateLimitStore() {
-  const store = new Map<string, RateLimitEntry>();
+function defaultTierResolver(
+  user: AuthUser | null,
+  options: RateLimitOptions
+): string {
+  if (!user) return 'anonymous';
+
+  if (options.tierClaim) {
+    // Extra JWT claims are kept on the user object by verifyJwt
+    const claim = (user as unknown as Record<string, unknown>)[options.tierClaim];
+    if (typeof claim === 'string' && claim) return claim;
+  }
+
+  if (options.ownerUserIds?.includes(user.id)) return 'owner';
+  return 'authenticated';
+}
 
-  // Clean up old entries periodically
-  const cleanup = setInterval(() => {
-    const now = Date.now();
-    for (const [key, entry] of store.entries()) {
-      // Remove timestamps older than 5 minutes
-      entry.timestamps = entry.timestamps.filter(t => now - t < 5 * 60 * 1000);
-      if (entry.timestamps.length === 0) {
-        store.delete(key);
+/**
+ * Resolve the tier name for a request (undefined when no tiers are configured)
+ */
+function resolveTier(c: Context, options: RateLimitOptions): string | undefined {
+  if (!options.tiers) return undefined;
+
+  const user = getContextUser(c);
+  return options.tierResolver
+    ? options.tierResolver(c, user)
+    : defaultTierResolver(user, options);
+}
+
+/**
+ * Get the limits (default + endpoints) that apply to a tier
+ */
+function getTierLimits(tier: string | undefined, options: RateLimitOptions): RateLimitTier {
+  if (!tier || !options.tiers) return options;
+  return options.tiers[tier] ?? options;
+}
+
+/**
+ * Endpoint rule compiled from its pattern
+ */
+interface EndpointRule {
+  name: string;
+  config: RateLimitConfig;
+  /** Uppercase HTTP methods, or undefined for all methods */
+  methods?: string[];
+  matches: (path: string) => boolean;
+  /** Higher wins when several non-stacked rules match */
+  specificity: number;
+}
+
+// Compiled rules per tier limits object
+const compiledRules = new WeakMap<RateLimitTier, EndpointRule[]>();
+
+/**
+ * Compile an endpoint pattern ('[METHODS ]path') into a rule
+ */
+function compileRule(name: string, config: RateLimitConfig): EndpointRule {
+  let pattern = name.trim();
+  let methods: string[] | undefined;
+
+  const methodMatch = pattern.match(/^([A-Za-z|,]+)\s+(\/.*)$/);
+  if (methodMatch) {
+    methods = methodMatch[1].split(/[|,]/).filter(Boolean).map(m => m.toUpperCase());
+    pattern = methodMatch[2];
+  }
+
+  // Literal characters count towards specificity; method filters break ties
+  const literal = pattern.replace(/:[^/]+|\*/g, '');
+  const specificity = literal.length + (methods ? 0.5 : 0);
+
+  // Plain paths keep the original prefix behavior
+  if (!pattern.includes('*') && !/\/:/.test(pattern)) {
+    return { name, config, methods, specificity, matches: path => path.startsWith(pattern) };
+  }
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      // Trailing '/*' also matches the path without the slash
+      if (i === pattern.length - 1 && pattern[i - 1] === '/') {
+        source = source.slice(0, -1) + '(?:/.*)?';
+      } else {
+        source += '.*';
       }
+    } else if (char === ':' && pattern[i - 1] === '/') {
+      while (i + 1 < pattern.length && pattern[i + 1] !== '/') i++;
+      source += '[^/]+';
+    } else {
+      source += char.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
     }
-  }, 60 * 1000); // Clean up every minute
+  }
+  const regex = new RegExp(`^${source}/?$`);
 
-  // Prevent interval from keeping process alive
-  cleanup.unref?.();
+  return { name, config, methods, specificity, matches: path => regex.test(path) };
+}
 
-  return store;
+function getRules(limits: RateLimitTier): EndpointRule[] {
+  let rules = compiledRules.get(limits);
+  if (!rules) {
+    rules = Object.entries(limits.endpoints ?? {}).map(([name, config]) => compileRule(name, config));
+    compiledRules.set(limits, rules);
+  }
+  return rules;
 }
 
 /**
- * Get the rate limit config for a given path
+ * Get every rate limit policy that applies to a request:
+ * the most specific matching rule (or default), plus all matching stacked rules
  */
-function getConfigForPath(path: string, options: RateLimitOptions): RateLimitConfig {
-  if (options.endpoints) {
-    // Find the most specific matching endpoint
-    const matchingPaths = Object.keys(options.endpoints)
-      .filter(prefix => path.startsWith(prefix))
-      .sort((a, b) => b.length - a.length); // Longest match first
+function getPoliciesForRequest(method: string, path: string, limits: RateLimitTier): RateLimitPolicy[] {
+  const matching = getRules(limits).filter(rule =>
+    (!rule.methods || rule.methods.includes(method)) && rule.matches(path)
+  );
+
+  const primary = matching
+    .filter(rule => !rule.config.stack)
+    .sort((a, b) => b.specificity - a.specificity)[0]; // Most specific first
 
-    if (matchingPaths.length > 0) {
-      return options.endpoints[matchingPaths[0]];
+  const policies: RateLimitPolicy[] = primary
+    ? [{ name: primary.name, config: primary.config }]
+    : limits.default.stack ? [] : [{ name: 'default', config: limits.default }];
+
+  if (limits.default.stack) {
+    policies.push({ name: 'default', config: limits.default });
+  }
+  for (const rule of matching) {
+    if (rule.config.stack) {
+      policies.push({ name: rule.name, config: rule.config });
     }
   }
-  return options.default;
+
+  return policies;
+}
+
+/**
+ * Get the store key for a request under a policy
+ * The non-stacked default is bucketed per path prefix; every other policy
+ * gets a bucket of its own so stacked rules never share counters.
+ */
+function getKey(c: Context, path: string, policy: RateLimitPolicy, options: RateLimitOptions): string {
+  const scoped = policy.name !== 'default' || policy.config.stack;
+  if (options.keyGenerator) {
+    const base = options.keyGenerator(c);
+    return scoped ? `${base}:${policy.name}` : base;
+  }
+  const scope = scoped ? `rule:${policy.name}` : path.split('/').slice(0, 3).join('/');
+  return defaultKeyGenerator(c, scope);
 }
 
 /**
- * Default key generator: IP + path prefix (first 3 segments)
+ * Default key generator: user ID (if authenticated) or IP, + scope
+ * Scope is the path prefix (first 3 segments) for the default rule, else the rule name
+ * Keying on user ID keeps users behind a shared NAT from throttling each other
  */
-function defaultKeyGenerator(c: Context): string {
+function defaultKeyGenerator(c: Context, scope: string): string {
+  const user = getContextUser(c);
+  if (user?.id) {
+    return `user:${user.id}:${scope}`;
+  }
   const ip = getClientIP(c);
-  const path = c.req.path;
-  const pathPrefix = path.split('/').slice(0, 3).join('/');
-  return `${ip}:${pathPrefix}`;
+  return `${ip}:${scope}`;
+}
+
+/**
+ * Sliding log: exact count of requests in the last window
+ */
+async function slidingLog(
+  store: RateLimitStore,
+  key: string,
+  config: RateLimitConfig,
+  now: number,
+  consume: boolean
+): Promise<RateLimitResult> {
+  const windowMs = config.window * 1000;
+
+  // Timestamps inside the window before this request (oldest first); when
+  // consuming, the store records the request in the same atomic step
+  const timestamps = consume
+    ? await store.increment(key, now, windowMs, config.limit)
+    : await store.get(key, now - windowMs);
+
+  if (timestamps.length >= config.limit) {
+    const oldestInWindow = timestamps[0];
+    return {
+      allowed: false,
+      limit: config.limit,
+      remaining: 0,
+      resetIn: Math.ceil((oldestInWindow + windowMs - now) / 1000),
+    };
+  }
+
+  return {
+    allowed: true,
+    limit: config.limit,
+    remaining: config.limit - timestamps.length - (consume ? 1 : 0),
+    resetIn: Math.ceil(((timestamps[0] ?? now) + windowMs - now) / 1000),
+  };
+}
+
+/**
+ * Fixed window: one counter per window, all requests in it count
+ */
+async function fixedWindow(
+  store: RateLimitStore,
+  key: string,
+  config: RateLimitConfig,
+  now: number,
+  consume: boolean
+): Promise<RateLimitResult> {
+  const windowMs = config.window * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const resetIn = Math.ceil((windowStart + windowMs - now) / 1000);
+
+  // Increment first so concurrent replicas can't both take the last slot
+  const counterKey = `${key}:fw:${windowStart}`;
+  const count = consume
+    ? await store.incrementCounter(counterKey, 1, windowMs)
+    : await store.getCounter(counterKey);
+
+  return {
+    allowed: consume ? count <= config.limit : count < config.limit,
+    limit: config.limit,
+    remaining: Math.max(0, config.limit - count),
+    resetIn,
+  };
+}
+
+// Attempts to write a counter with compare-and-set before giving up under contention
+const COMPARE_AND_SET_ATTEMPTS = 5;
+
+/**
+ * Sliding window counter: previous window count weighted by its overlap
+ * with the sliding window, plus the current window count
+ * The current count is written with compare-and-set, so concurrent requests
+ * can't both take the last slot; the loser re-reads and retries.
+ */
+async function slidingWindowCounter(
+  store: RateLimitStore,
+  key: string,
+  config: RateLimitConfig,
+  now: number,
+  consume: boolean
+): Promise<RateLimitResult> {
+  const windowMs = config.window * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const elapsed = now - windowStart;
+
+  const currentKey = `${key}:swc:${windowStart}`;
+  const previous = await store.getCounter(`${key}:swc:${windowStart - windowMs}`);
+  const weight = 1 - elapsed / windowMs;
+
+  const denied = (current: number): RateLimitResult => {
+    // Time until the previous window's weight has decayed enough
+    let resetMs = windowMs - elapsed;
+    if (current < config.limit && previous > 0) {
+      const targetWeight = (config.limit - current) / previous;
+      resetMs = Math.min(resetMs, windowMs * (1 - targetWeight) - elapsed);
+    }
+    return {
+      allowed: false,
+      limit: config.limit,
+      remaining: 0,
+      resetIn: Math.max(1, Math.ceil(resetMs / 1000)),
+    };
+  };
+
+  let current = 0;
+  for (let attempt = 0; attempt < COMPARE_AND_SET_ATTEMPTS; attempt++) {
+    current = await store.getCounter(currentKey);
+    const estimate = previous * weight + current;
+
+    if (estimate >= config.limit) {
+      return denied(current);
+    }
+
+    // Previous window is still read during the next window, so keep it for two
+    if (consume && !(await store.compareAndSetCounter(currentKey, current, current + 1, windowMs * 2))) {
+      // Another request counted first
+      continue;
+    }
+
+    return {
+      allowed: true,
+      limit: config.limit,
+      remaining: Math.max(0, Math.floor(config.limit - estimate - (consume ? 1 : 0))),
+      resetIn: Math.ceil((windowMs - elapsed) / 1000),
+    };
+  }
+
+  // Lost every race: the key is busy, treat it as over the limit
+  return denied(current);
+}
+
+/**
+ * Token bucket, implemented as GCRA: the store holds the theoretical
+ * arrival time (TAT) of the next request, one number per key
+ * The absolute TAT is written with compare-and-set, so concurrent requests
+ * can't both move it from the same value; the loser re-reads and retries.
+ */
+async function tokenBucket(
+  store: RateLimitStore,
+  key: string,
+  config: RateLimitConfig,
+  now: number,
+  consume: boolean
+): Promise<RateLimitResult> {
+  const burst = config.burst ?? config.limit;
+  const interval = (config.window * 1000) / config.limit; // ms per token
+  const bucketKey = `${key}:tb`;
+  // A full bucket's worth of time (also how far ahead a valid TAT can be)
+  const capacity = burst * interval;
+  const denied = (waitMs: number): RateLimitResult => ({
+    allowed: false,
+    limit: burst,
+    remaining: 0,
+    // Never more than one token's refill time away
+    resetIn: Math.max(1, Math.ceil(Math.min(waitMs, interval) / 1000)),
+  });
+
+  for (let attempt = 0; attempt < COMPARE_AND_SET_ATTEMPTS; attempt++) {
+    const storedTat = await store.getCounter(bucketKey);
+    // Clamp so a corrupt or stale value can't lock the key out
+    const tat = Math.min(Math.max(storedTat, now), now + capacity);
+    const newTat = tat + interval;
+    const allowAt = newTat - capacity;
+
+    if (now < allowAt) {
+      return denied(allowAt - now);
+    }
+
+    if (consume && !(await store.compareAndSetCounter(bucketKey, storedTat, newTat, newTat - now))) {
+      // Another request moved the TAT first
+      continue;
+    }
+
+    // Without consuming, the bucket still holds the token this request would take
+    const remaining = Math.floor(burst - (newTat - now) / interval) + (consume ? 0 : 1);
+
+    return {
+      allowed: true,
+      limit: burst,
+      remaining: Math.max(0, remaining),
+      resetIn: Math.ceil(((consume ? newTat : tat) - now) / 1000),
+    };
+  }
+
+  // Lost every race: the key is busy, treat it as over the limit
+  return denied(interval);
+}
+
+const ALGORITHMS: Record<RateLimitAlgorithm, typeof slidingLog> = {
+  'sliding-log': slidingLog,
+  'sliding-window-counter': slidingWindowCounter,
+  'fixed-window': fixedWindow,
+  'token-bucket': tokenBucket,
+};
+
+/**
+ * Serialize a policy name as a structured field string
+ */
+function sfString(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+/**
+ * A policy together with the outcome of checking it
+ */
+interface RateLimitCheck {
+  policy: RateLimitPolicy;
+  result: RateLimitResult;
+}
+
+/**
+ * Set rate limit headers for a checked request
+ * Legacy X-RateLimit-* report the most restrictive policy; IETF draft headers
+ * (when standardHeaders is on) list every applied policy
+ */
+function setRateLimitHeaders(
+  c: Context,
+  checks: RateLimitCheck[],
+  options: RateLimitOptions
+) {
+  // Lowest remaining wins, then longest reset
+  const { result } = [...checks].sort((a, b) =>
+    a.result.remaining - b.result.remaining || b.result.resetIn - a.result.resetIn
+  )[0];
+
+  c.header('X-RateLimit-Limit', result.limit.toString());
+  c.header('X-RateLimit-Remaining', result.remaining.toString());
+  c.header('X-RateLimit-Reset', result.resetIn.toString());
+
+  if (options.standardHeaders) {
+    c.header('RateLimit-Policy', checks
+      .map(({ policy, result }) => `${sfString(policy.name)};q=${result.limit};w=${policy.config.window}`)
+      .join(', '));
+    c.header('RateLimit', checks
+      .map(({ policy, result }) => `${sfString(policy.name)};r=${result.remaining};t=${result.resetIn}`)
+      .join(', '));
+  }
+}
+
+/**
+ * Check every policy for a request (keyed as a request to `path`)
+ * With several policies, all are checked first and only consumed if all allow it,
+ * so a request rejected by one rule doesn't use up the others
+ *
+ * Each policy is consumed atomically on its own, but not together with the
+ * others: requests racing past the check can still be counted by one policy
+ * and then rejected by another. No policy ever admits more than its limit.
+ */
+async function checkPolicies(
+  c: Context,
+  store: RateLimitStore,
+  policies: RateLimitPolicy[],
+  options: RateLimitOptions,
+  consume: boolean,
+  path: string = c.req.path
+): Promise<RateLimitCheck[]> {
+  const now = Date.now();
+  const check = (policy: RateLimitPolicy, consumeNow: boolean) => {
+    const algorithm = ALGORITHMS[policy.config.algorithm ?? 'sliding-log'];
+    const key = getKey(c, path, policy, options);
+    return algorithm(store, key, policy.config, now, consumeNow)
+      .then(result => ({ policy, result }));
+  };
+
+  if (consume && policies.length > 1) {
+    const peeked = await Promise.all(policies.map(policy => check(policy, false)));
+    if (peeked.some(({ result }) => !result.allowed)) {
+      return peeked;
+    }
+  }
+
+  return Promise.all(policies.map(policy => check(policy, consume)));
 }
 
 /**
  * Create rate limiter middleware
  *
  * @example
- * // Simple usage with default config
+ * // Simple usage with default config (in-memory store)
  * const store = createRateLimitStore();
  * app.use('/api/*', rateLimiter(store, { default: { limit: 100, window: 60 } }));
  *
@@ -100,63 +601,120 @@ function defaultKeyGenerator(c: Context): string {
  *     '/api/import': { limit: 5, window: 300 },    // Very strict for imports
  *   }
  * }));
+ *
+ * @example
+ * // Patterns, method filters and a stacked hourly budget
+ * app.use('/api/*', rateLimiter(store, {
+ *   default: { limit: 1000, window: 3600, stack: true },
+ *   endpoints: {
+ *     '/api/*': { limit: 100, window: 60 },
+ *     'POST /api/import': { limit: 5, window: 300 },
+ *     '/api/items/:id/export': { limit: 10, window: 3600 },
+ *   }
+ * }));
+ *
+ * @example
+ * // Large limits with constant memory per key
+ * app.use('/api/*', rateLimiter(store, {
+ *   default: { limit: 10000, window: 3600, algorithm: 'sliding-window-counter' },
+ *   endpoints: {
+ *     '/api/search': { limit: 60, window: 60, algorithm: 'token-bucket', burst: 20 },
+ *   }
+ * }));
+ *
+ * @example
+ * // Per-user keys and tiers (run after optionalAuth so the user is known)
+ * app.use('/api/*', optionalAuth);
+ * app.use('/api/*', rateLimiter(store, {
+ *   default: { limit: 100, window: 60 },
+ *   ownerUserIds: [env.ownerUserId],
+ *   tiers: {
+ *     anonymous: { default: { limit: 20, window: 60 } },
+ *     owner: { default: { limit: 1000, window: 60 } },
+ *   },
+ * }));
+ *
+ * @example
+ * // IETF draft headers on every response:
+ * //   RateLimit-Policy: "default";q=100;w=60
+ * //   RateLimit: "default";r=99;t=60
+ * app.use('/api/*', rateLimiter(store, { default: { limit: 100, window: 60 }, standardHeaders: true }));
+ *
+ * @example
+ * // Shared across replicas
+ * const store = createRedisRateLimitStore(redisClient);
+ * app.use('/api/*', rateLimiter(store, { default: { limit: 100, window: 60 } }));
  */
 export function rateLimiter(
-  store: Map<string, RateLimitEntry>,
+  store: RateLimitStore,
   options: RateLimitOptions
 ) {
-  const keyGenerator = options.keyGenerator ?? defaultKeyGenerator;
-
   return async (c: Context, next: Next) => {
     // Check if we should skip rate limiting
     if (options.skip?.(c)) {
       return next();
     }
 
-    const path = c.req.path;
-    const config = getConfigForPath(path, options);
-    const key = keyGenerator(c);
-
-    const now = Date.now();
-    const windowMs = config.window * 1000;
-
-    // Get or create entry
-    let entry = store.get(key);
-    if (!entry) {
-      entry = { timestamps: [] };
-      store.set(key, entry);
-    }
-
-    // Remove timestamps outside the window
-    entry.timestamps = entry.timestamps.filter(t => now - t < windowMs);
+    const limits = getTierLimits(resolveTier(c, options), options);
+    const policies = getPoliciesForRequest(c.req.method, c.req.path, limits);
+    const checks = await checkPolicies(c, store, policies, options, true);
 
-    // Check if over limit
-    if (entry.timestamps.length >= config.limit) {
-      const oldestInWindow = Math.min(...entry.timestamps);
-      const resetIn = Math.ceil((oldestInWindow + windowMs - now) / 1000);
+    setRateLimitHeaders(c, checks, options);
 
-      c.header('X-RateLimit-Limit', config.limit.toString());
-      c.header('X-RateLimit-Remaining', '0');
-      c.header('X-RateLimit-Reset', resetIn.toString());
-      c.header('Retry-After', resetIn.toString());
+    // Check if over any limit
+    const rejected = checks.filter(({ result }) => !result.allowed);
+    if (rejected.length > 0) {
+      // Never ask a client to wait longer than a policy's window
+      const retryAfter = Math.max(...rejected.map(({ policy, result }) =>
+        Math.min(result.resetIn, Math.ceil(policy.config.window))
+      ));
+      c.header('Retry-After', retryAfter.toString());
 
       return c.json({
         error: 'Too many requests',
-        retryAfter: resetIn,
+        retryAfter,
       }, 429);
     }
 
-    // Add current request timestamp
-    entry.timestamps.push(now);
-
-    // Set rate limit headers
-    c.header('X-RateLimit-Limit', config.limit.toString());
-    c.header('X-RateLimit-Remaining', (config.limit - entry.timestamps.length).toString());
-
     await next();
   };
 }
 
+/**
+ * Get the caller's current quota for the default limit and every endpoint rule
+ * Does not count as a request against any of them
+ *
+ * The non-stacked default (without a keyGenerator) is counted per path prefix,
+ * so it's only reported when `path` says which prefix to look at.
+ */
+export async function getRateLimitQuota(
+  c: Context,
+  store: RateLimitStore,
+  options: RateLimitOptions,
+  path?: string
+): Promise<{ tier?: string; quotas: RateLimitQuota[] }> {
+  const tier = resolveTier(c, options);
+  const limits = getTierLimits(tier, options);
+  const defaultIsPerPath = !limits.default.stack && !options.keyGenerator;
+
+  const policies: RateLimitPolicy[] = [
+    ...(defaultIsPerPath && !path ? [] : [{ name: 'default', config: limits.default }]),
+    ...Object.entries(limits.endpoints ?? {}).map(([name, config]) => ({ name, config })),
+  ];
+
+  const checks = await checkPolicies(c, store, policies, options, false, path ?? c.req.path);
+  const quotas = checks.map(({ policy, result }) => ({
+    endpoint: policy.name,
+    algorithm: policy.config.algorithm ?? 'sliding-log',
+    window: policy.config.window,
+    limit: result.limit,
+    remaining: result.remaining,
+    reset: result.resetIn,
+  }));
+
+  return { tier, quotas };
+}
+
 /**
  * Simple rate limiter factory for backwards compatibility
  * Creates a store and returns a middleware with basic config
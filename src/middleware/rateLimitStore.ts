@@ -0,0 +1,256 @@
+/**
+ * Rate Limit Stores
+ * Storage backends for the rate limiter
+ *
+ * Supports:
+ * - In-memory store (default, per-process)
+ * - Redis-protocol store (shared across replicas, survives deploys)
+ */
+
+/**
+ * Storage backend used by rateLimiter
+ * All methods are async so shared backends can be plugged in
+ *
+ * get/increment hold per-request timestamps (sliding-log algorithm).
+ * getCounter/incrementCounter/compareAndSetCounter hold a single number per key
+ * (all other algorithms).
+ *
+ * increment and compareAndSetCounter must be atomic: replicas sharing a store
+ * may race on the same key, and a check followed by a separate write would let
+ * both take the last slot.
+ */
+export interface RateLimitStore {
+  /** Get hit timestamps (ms) for a key that are newer than `since`, oldest first */
+  get(key: string, since: number): Promise<number[]>;
+  /**
+   * Atomically drop hits older than `now - windowMs`, then record a hit at `now` (ms)
+   * if fewer than `limit` remain, expiring the key `windowMs` after it.
+   * Returns the hits in the window before this one, oldest first
+   * (the hit was recorded if there are fewer than `limit`).
+   */
+  increment(key: string, now: number, windowMs: number, limit: number): Promise<number[]>;
+  /** Get a counter value (0 if missing or expired) */
+  getCounter(key: string): Promise<number>;
+  /** Add `amount` to a counter, reset its expiry to `ttlMs`, and return the new value */
+  incrementCounter(key: string, amount: number, ttlMs: number): Promise<number>;
+  /**
+   * Set a counter to `value` with expiry `ttlMs`, only if it still holds
+   * `expected` (0 matches a missing or expired counter). Returns whether it was set
+   */
+  compareAndSetCounter(key: string, expected: number, value: number, ttlMs: number): Promise<boolean>;
+}
+
+interface RateLimitEntry {
+  timestamps: number[];
+  expiresAt: number;
+}
+
+interface CounterEntry {
+  value: number;
+  expiresAt: number;
+}
+
+/**
+ * Create an in-memory rate limit store
+ * Each service should create its own store instance
+ */
+export function createRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry>();
+  const counters = new Map<string, CounterEntry>();
+
+  // Clean up expired entries periodically
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of entries.entries()) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+    for (const [key, counter] of counters.entries()) {
+      if (counter.expiresAt <= now) {
+        counters.delete(key);
+      }
+    }
+  }, 60 * 1000); // Clean up every minute
+
+  // Prevent interval from keeping process alive
+  cleanup.unref?.();
+
+  return {
+    async get(key, since) {
+      const entry = entries.get(key);
+      if (!entry) return [];
+      // Drop timestamps that fell out of the window
+      entry.timestamps = entry.timestamps.filter(t => t > since);
+      return [...entry.timestamps];
+    },
+
+    async increment(key, now, windowMs, limit) {
+      // No await in here, so concurrent requests can't interleave
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = { timestamps: [], expiresAt: 0 };
+        entries.set(key, entry);
+      }
+      entry.timestamps = entry.timestamps.filter(t => t > now - windowMs);
+      const timestamps = [...entry.timestamps];
+      if (timestamps.length < limit) {
+        entry.timestamps.push(now);
+        entry.expiresAt = now + windowMs;
+      }
+      return timestamps;
+    },
+
+    async getCounter(key) {
+      const counter = counters.get(key);
+      if (!counter || counter.expiresAt <= Date.now()) return 0;
+      return counter.value;
+    },
+
+    async incrementCounter(key, amount, ttlMs) {
+      const now = Date.now();
+      let counter = counters.get(key);
+      if (!counter || counter.expiresAt <= now) {
+        counter = { value: 0, expiresAt: 0 };
+        counters.set(key, counter);
+      }
+      counter.value += amount;
+      counter.expiresAt = now + ttlMs;
+      return counter.value;
+    },
+
+    async compareAndSetCounter(key, expected, value, ttlMs) {
+      const now = Date.now();
+      const counter = counters.get(key);
+      const current = !counter || counter.expiresAt <= now ? 0 : counter.value;
+      if (current !== expected) return false;
+      counters.set(key, { value, expiresAt: now + ttlMs });
+      return true;
+    },
+  };
+}
+
+/**
+ * Minimal Redis client shape (anything that can send a raw command)
+ *
+ * node-redis v4+ clients match this directly. For ioredis, wrap it:
+ * `{ sendCommand: ([cmd, ...args]) => redis.call(cmd, ...args) }`
+ */
+export interface RedisCommandClient {
+  sendCommand(args: string[]): Promise<unknown>;
+}
+
+/**
+ * Drop hits up to ARGV[2], read the rest, and add ARGV[5] at ARGV[1] if fewer
+ * than ARGV[4] remain (expiring after ARGV[3] ms); one script so it's atomic
+ */
+const SLIDING_LOG_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[2])
+local hits = redis.call('ZRANGEBYSCORE', KEYS[1], '(' .. ARGV[2], '+inf', 'WITHSCORES')
+if #hits / 2 < tonumber(ARGV[4]) then
+  redis.call('ZADD', KEYS[1], ARGV[1], ARGV[5])
+  redis.call('PEXPIRE', KEYS[1], ARGV[3])
+end
+return hits
+`;
+
+/**
+ * Set KEYS[1] to ARGV[2] (expiring after ARGV[3] ms) if it holds ARGV[1]
+ * (a missing key holds 0)
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+if current ~= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1
+`;
+
+/**
+ * Add ARGV[1] to KEYS[1] and expire it after ARGV[2] ms, in one atomic step
+ */
+const INCREMENT_SCRIPT = `
+local value = redis.call('INCRBYFLOAT', KEYS[1], ARGV[1])
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+return value
+`;
+
+/**
+ * Read timestamps from a WITHSCORES reply (alternating member, score)
+ */
+function parseScores(reply: unknown): number[] {
+  if (!Array.isArray(reply)) return [];
+  const timestamps: number[] = [];
+  for (let i = 1; i < reply.length; i += 2) {
+    timestamps.push(Number(reply[i]));
+  }
+  return timestamps;
+}
+
+export interface RedisRateLimitStoreOptions {
+  /** Key prefix for all rate limit keys (default: 'ratelimit:') */
+  prefix?: string;
+}
+
+/**
+ * Create a rate limit store backed by a Redis-protocol server
+ * Hits are kept in one sorted set per key (score = timestamp), updated by a
+ * Lua script (EVAL) so check-and-add is atomic; counters in plain string keys
+ * (INCRBYFLOAT with its expiry, or compare-and-set, each in a Lua script)
+ *
+ * @example
+ * import { createClient } from 'redis';
+ *
+ * const redis = createClient({ url: process.env.REDIS_URL });
+ * await redis.connect();
+ *
+ * const store = createRedisRateLimitStore(redis);
+ * app.use('/api/*', rateLimiter(store, { default: { limit: 100, window: 60 } }));
+ */
+export function createRedisRateLimitStore(
+  client: RedisCommandClient,
+  options: RedisRateLimitStoreOptions = {}
+): RateLimitStore {
+  const prefix = options.prefix ?? 'ratelimit:';
+  // Distinguishes hits recorded in the same millisecond
+  let sequence = 0;
+
+  return {
+    async get(key, since) {
+      const reply = await client.sendCommand(['ZRANGEBYSCORE', prefix + key, `(${since}`, '+inf', 'WITHSCORES']);
+      return parseScores(reply);
+    },
+
+    async increment(key, now, windowMs, limit) {
+      sequence = (sequence + 1) % Number.MAX_SAFE_INTEGER;
+      const member = `${now}-${sequence}-${Math.random().toString(36).slice(2, 8)}`;
+      const reply = await client.sendCommand([
+        'EVAL', SLIDING_LOG_SCRIPT, '1', prefix + key,
+        now.toString(), (now - windowMs).toString(), Math.ceil(windowMs).toString(), limit.toString(), member,
+      ]);
+      return parseScores(reply);
+    },
+
+    async getCounter(key) {
+      const reply = await client.sendCommand(['GET', prefix + key]);
+      return reply == null ? 0 : Number(reply);
+    },
+
+    async incrementCounter(key, amount, ttlMs) {
+      const reply = await client.sendCommand([
+        'EVAL', INCREMENT_SCRIPT, '1', prefix + key,
+        amount.toString(), Math.max(1, Math.ceil(ttlMs)).toString(),
+      ]);
+      return Number(reply);
+    },
+
+    async compareAndSetCounter(key, expected, value, ttlMs) {
+      const reply = await client.sendCommand([
+        'EVAL', COMPARE_AND_SET_SCRIPT, '1', prefix + key,
+        expected.toString(), value.toString(), Math.max(1, Math.ceil(ttlMs)).toString(),
+      ]);
+      return Number(reply) === 1;
+    },
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Token Revocation Stores
+ * Denylist of revoked token ids (jti) and per-user "revoked before" watermarks
+ *
+ * Supports:
+ * - In-memory store (default, per-process)
+ * - Redis-protocol store (shared across replicas, survives deploys)
+ *
+ * Entries only need to live as long as the tokens they revoke, so every
+ * entry carries an expiry and is dropped after it.
+ */
+import type { RedisCommandClient } from './rateLimitStore.js';
+
+/**
+ * Storage backend used by the token verifier
+ * All times are in ms since the epoch
+ */
+export interface RevocationStore {
+  /** Check whether a token id has been revoked */
+  isRevoked(jti: string): Promise<boolean>;
+  /** Revoke a token id until `expiresAt` (the token's own expiry) */
+  revoke(jti: string, expiresAt: number): Promise<void>;
+  /** Get the time before which a user's tokens are revoked (null if none) */
+  getRevokedBefore(userId: string): Promise<number | null>;
+  /**
+   * Revoke every token issued to a user before `before`, keeping the
+   * watermark until `expiresAt` (when the longest-lived token has expired)
+   * An earlier watermark never replaces a later one
+   */
+  revokeBefore(userId: string, before: number, expiresAt: number): Promise<void>;
+}
+
+interface RevocationEntry {
+  value: number;
+  expiresAt: number;
+}
+
+/**
+ * Create an in-memory revocation store
+ * Each service should create its own store instance
+ */
+export function createRevocationStore(): RevocationStore {
+  const revoked = new Map<string, RevocationEntry>();
+  const watermarks = new Map<string, RevocationEntry>();
+
+  // Clean up expired entries periodically
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const map of [revoked, watermarks]) {
+      for (const [key, entry] of map.entries()) {
+        if (entry.expiresAt <= now) {
+          map.delete(key);
+        }
+      }
+    }
+  }, 60 * 1000); // Clean up every minute
+
+  // Prevent interval from keeping process alive
+  cleanup.unref?.();
+
+  const getLive = (map: Map<string, RevocationEntry>, key: string) => {
+    const entry = map.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) return undefined;
+    return entry;
+  };
+
+  return {
+    async isRevoked(jti) {
+      return getLive(revoked, jti) !== undefined;
+    },
+
+    async revoke(jti, expiresAt) {
+      const existing = getLive(revoked, jti);
+      revoked.set(jti, { value: 1, expiresAt: Math.max(expiresAt, existing?.expiresAt ?? 0) });
+    },
+
+    async getRevokedBefore(userId) {
+      return getLive(watermarks, userId)?.value ?? null;
+    },
+
+    async revokeBefore(userId, before, expiresAt) {
+      const existing = getLive(watermarks, userId);
+      watermarks.set(userId, {
+        value: Math.max(before, existing?.value ?? 0),
+        expiresAt: Math.max(expiresAt, existing?.expiresAt ?? 0),
+      });
+    },
+  };
+}
+
+/**
+ * Set KEYS[1] to the larger of its value and ARGV[1], expiring after the longer
+ * of its TTL and ARGV[2] ms; one script so concurrent writers can't undo each other
+ */
+const KEEP_MAX_SCRIPT = `
+local value = ARGV[1]
+local current = redis.call('GET', KEYS[1])
+if current and tonumber(current) > tonumber(value) then
+  value = current
+end
+local ttl = math.max(redis.call('PTTL', KEYS[1]), tonumber(ARGV[2]))
+redis.call('SET', KEYS[1], value, 'PX', ttl)
+return 1
+`;
+
+export interface RedisRevocationStoreOptions {
+  /** Key prefix for all revocation keys (default: 'revoked:') */
+  prefix?: string;
+}
+
+/**
+ * Create a revocation store backed by a Redis-protocol server
+ * Token ids and watermarks are plain string keys with an expiry, written by a
+ * Lua script (EVAL) that keeps the later watermark and the longer expiry
+ *
+ * @example
+ * const redis = createClient({ url: process.env.REDIS_URL });
+ * await redis.connect();
+ *
+ * const revocationStore = createRedisRevocationStore(redis);
+ */
+export function createRedisRevocationStore(
+  client: RedisCommandClient,
+  options: RedisRevocationStoreOptions = {}
+): RevocationStore {
+  const prefix = options.prefix ?? 'revoked:';
+
+  const ttl = (expiresAt: number) => Math.max(Math.ceil(expiresAt - Date.now()), 1).toString();
+
+  return {
+    async isRevoked(jti) {
+      const reply = await client.sendCommand(['EXISTS', `${prefix}jti:${jti}`]);
+      return Number(reply) > 0;
+    },
+
+    async revoke(jti, expiresAt) {
+      await client.sendCommand(['EVAL', KEEP_MAX_SCRIPT, '1', `${prefix}jti:${jti}`, '1', ttl(expiresAt)]);
+    },
+
+    async getRevokedBefore(userId) {
+      const reply = await client.sendCommand(['GET', `${prefix}user:${userId}`]);
+      return reply == null ? null : Number(reply);
+    },
+
+    async revokeBefore(userId, before, expiresAt) {
+      await client.sendCommand([
+        'EVAL', KEEP_MAX_SCRIPT, '1', `${prefix}user:${userId}`, before.toString(), ttl(expiresAt),
+      ]);
+    },
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Service-to-Service Auth
+ * Short-lived signed service tokens for internal calls (machine identity)
+ *
+ * Callers send `Authorization: Bearer <service token>`. This header path is
+ * separate from user auth, which stays cookie-only.
+ *
+ * SECURITY NOTES:
+ * - Tokens name the caller (iss) and the target service (aud), and expire quickly
+ * - Service tokens are marked token_use=service, so they can't pass as user
+ *   tokens (no AuthUser payload) and user tokens can't pass as service tokens
+ * - Being on the internal network is not enough, the signature decides
+ * - With jwtKeys, a key only vouches for its own service: kid must be
+ *   `<service>` or `<service>:<version>` and match iss. With a shared jwtSecret
+ *   every holder can act as any service, so prefer per-service keys
+ * - Error messages are generic to prevent information leakage
+ */
+import { randomUUID } from 'node:crypto';
+import type { Context, Next, MiddlewareHandler } from 'hono';
+import { signJwt, verifyJwt } from '../utils/jwks.js';
+import type { JwtKeySet, JwtSigningKey } from '../utils/jwks.js';
+
+export interface ServiceAuthConfig {
+  /** This service's name: `iss` of outgoing tokens, required `aud` of incoming ones */
+  service: string;
+  /**
+   * Key for signing outgoing tokens (optional if this service only receives calls)
+   * e.g. { alg: 'EdDSA', kid: 'billing:1', privateKey: env.servicePrivateKey }
+   */
+  signingKey?: JwtSigningKey;
+  /** Shared secret for verifying HS256 service tokens */
+  jwtSecret?: string;
+  /** Public keys of calling services (see createJwtKeySet) */
+  jwtKeys?: JwtKeySet;
+  /** Lifetime of outgoing tokens in seconds (default: 60) */
+  tokenTtl?: number;
+  /** Oldest accepted incoming token, in seconds since iat (default: 300) */
+  maxTokenAge?: number;
+  /** Clock skew allowed between services, in seconds (default: 5) */
+  clockTolerance?: number;
+}
+
+export interface ServiceAuth {
+  /**
+   * Middleware that only lets listed services through
+   * Sets the caller's name in context ('service')
+   */
+  requireService: (allowed: string[]) => MiddlewareHandler;
+  /** Get a token for calling a service (cached until shortly before it expires) */
+  getServiceToken: (audience: string) => string;
+  /** Add a service token for `audience` to outgoing request options */
+  signRequest: (audience: string, init?: RequestInit) => RequestInit;
+  /** Get the calling service from context (set by requireService) */
+  getService: (c: Context) => string | null;
+}
+
+export const SERVICE_TOKEN_USE = 'service';
+
+/**
+ * Check that a key id belongs to a service ('<service>' or '<service>:<version>')
+ */
+function isKeyOfService(kid: unknown, service: string): boolean {
+  return typeof kid === 'string' && (kid === service || kid.startsWith(`${service}:`));
+}
+
+/**
+ * Read a token's header (only trust it after the signature has been verified)
+ */
+function readHeader(token: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+}
+
+/**
+ * Create service-to-service auth for a service
+ *
+ * @example
+ * const { requireService, signRequest } = createServiceAuth({
+ *   service: 'billing',
+ *   signingKey: { alg: 'EdDSA', kid: 'billing:1', privateKey: env.servicePrivateKey },
+ *   jwtKeys: createJwtKeySet({ jwksUrl: env.serviceJwksUrl }),
+ * });
+ *
+ * // Incoming: only the Hub and the tracker may call these routes
+ * app.use('/internal/*', requireService(['hub', 'tracker']));
+ *
+ * // Outgoing
+ * await fetch(`${env.hubInternalUrl}/internal/usage`, signRequest('hub', {
+ *   method: 'POST',
+ *   body: JSON.stringify(usage),
+ * }));
+ */
+export function createServiceAuth(config: ServiceAuthConfig): ServiceAuth {
+  const {
+    service,
+    signingKey,
+    jwtSecret,
+    jwtKeys,
+    tokenTtl = 60,
+    maxTokenAge = 300,
+    clockTolerance = 5,
+  } = config;
+
+  // Validate config at creation time (fail fast)
+  if (!service) {
+    throw new Error('ServiceAuth: service is required');
+  }
+  if (signingKey && signingKey.alg !== 'HS256' && !isKeyOfService(signingKey.kid, service)) {
+    throw new Error(`ServiceAuth: signingKey kid must be '${service}' or '${service}:<version>'`);
+  }
+  if (tokenTtl > maxTokenAge) {
+    throw new Error('ServiceAuth: tokenTtl must not exceed maxTokenAge');
+  }
+
+  const cache = new Map<string, { token: string; expiresAt: number }>();
+
+  const getServiceToken = (audience: string) => {
+    if (!signingKey) {
+      throw new Error('ServiceAuth: signingKey is required to sign requests');
+    }
+
+    const now = Date.now();
+    const cached = cache.get(audience);
+    // Reuse until a quarter of the lifetime is left
+    if (cached && cached.expiresAt - now > (tokenTtl * 1000) / 4) {
+      return cached.token;
+    }
+
+    const iat = Math.floor(now / 1000);
+    const token = signJwt({
+      iss: service,
+      sub: service,
+      aud: audience,
+      iat,
+      exp: iat + tokenTtl,
+      jti: randomUUID(),
+      token_use: SERVICE_TOKEN_USE,
+    }, signingKey);
+    cache.set(audience, { token, expiresAt: (iat + tokenTtl) * 1000 });
+    return token;
+  };
+
+  const signRequest = (audience: string, init: RequestInit = {}): RequestInit => {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${getServiceToken(audience)}`);
+    return { ...init, headers };
+  };
+
+  const requireService = (allowed: string[]): MiddlewareHandler => {
+    if (!jwtSecret && !jwtKeys) {
+      throw new Error('ServiceAuth: jwtSecret or jwtKeys is required to verify services');
+    }
+
+    return async (c: Context, next: Next) => {
+      const header = c.req.header('authorization') || '';
+      const match = /^Bearer\s+(\S+)$/i.exec(header);
+      if (!match) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      let caller: string;
+      try {
+        const claims = await verifyJwt(match[1], {
+          secret: jwtSecret,
+          keySet: jwtKeys,
+          audience: service,
+          maxAge: maxTokenAge,
+          clockTolerance,
+          requiredClaims: ['iss', 'exp', 'iat'],
+        });
+        if (claims.token_use !== SERVICE_TOKEN_USE || typeof claims.iss !== 'string') {
+          throw new Error('Not a service token');
+        }
+        // SECURITY: A service's key can't vouch for another service
+        const { alg, kid } = readHeader(match[1]);
+        if (alg !== 'HS256' && !isKeyOfService(kid, claims.iss)) {
+          throw new Error('Key does not belong to issuer');
+        }
+        caller = claims.iss;
+      } catch {
+        // SECURITY: Generic error message, no token details leaked
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!allowed.includes(caller)) {
+        return c.json({ error: 'Forbidden' }, 403);
+      }
+
+      c.set('service', caller);
+      await next();
+    };
+  };
+
+  const getService = (c: Context): string | null => {
+    return c.get('service') || null;
+  };
+
+  return { requireService, getServiceToken, signRequest, getService };
+}
@@ -0,0 +1,214 @@
+/**
+ * Session Refresh (internal)
+ * Short-lived access cookie plus a longer-lived refresh cookie, renewed through the Hub
+ *
+ * Shared by the auth middleware (transparent re-issue) and auth routes (POST /refresh,
+ * login code exchange).
+ *
+ * Hub contract: POST hubRefreshUrl with JSON `{ refreshToken }` (or `{ accessToken }`
+ * for re-issuing a still-valid access token) answers `{ accessToken, refreshToken? }`.
+ * A returned refreshToken replaces the old one (rotation). Access tokens carry the
+ * login time as `auth_time`, and re-issued ones keep it.
+ * POST hubTokenUrl with JSON `{ code, redirectUri }` answers the same; the Hub must
+ * accept each code once, shortly after issuing it, for the redirectUri it was issued to.
+ *
+ * SECURITY NOTES:
+ * - Both cookies are HttpOnly; access is SameSite=Lax, refresh is SameSite=Strict
+ * - The refresh cookie is scoped to /api/auth so it's only sent to the auth routes
+ * - Tokens from the Hub are verified like any other token before being set
+ * - An access token alone only renews until maxRenewAge after login (auth_time),
+ *   so a stolen access cookie can't be kept alive forever
+ * - Hub errors are never echoed to clients
+ */
+import type { Context, Hono } from 'hono';
+import { deleteCookie, setCookie } from 'hono/cookie';
+
+export const ACCESS_COOKIE = 'auth_token';
+export const REFRESH_COOKIE = 'refresh_token';
+/** Path the auth routes are mounted under (see createAuthRoutes) */
+export const REFRESH_COOKIE_PATH = '/api/auth';
+
+/**
+ * Access/refresh token settings (shared by createAuthMiddleware and createAuthRoutes)
+ */
+export interface SessionRefreshConfig {
+  /**
+   * Hub token endpoint, called server-to-server
+   * e.g. `${env.hubInternalUrl}/api/auth/refresh` (internal URLs are fine here)
+   * Required unless a devHub answers re-issues instead
+   */
+  hubRefreshUrl?: string;
+  /** Access cookie lifetime in seconds (default: 15 minutes) */
+  accessMaxAge?: number;
+  /** Refresh cookie lifetime in seconds (default: 30 days) */
+  refreshMaxAge?: number;
+  /** Re-issue the access token when it expires within this many seconds (default: 5 minutes) */
+  renewBefore?: number;
+  /**
+   * Seconds after login (the token's auth_time) during which requireAuth
+   * re-issues access tokens (default: 12 hours)
+   * Later, or for tokens without auth_time, only the refresh cookie renews the session
+   */
+  maxRenewAge?: number;
+  /** Hub request timeout in ms (default: 5000) */
+  timeoutMs?: number;
+  /** Fetch implementation (default: global fetch) */
+  fetch?: (url: string, init?: RequestInit) => Response | Promise<Response>;
+}
+
+/**
+ * One-time login code exchange (used by createAuthRoutes' /callback)
+ */
+export interface CodeExchangeConfig {
+  /**
+   * Hub endpoint exchanging a login code for tokens, called server-to-server
+   * e.g. `${env.hubInternalUrl}/api/auth/token` (internal URLs are fine here)
+   */
+  hubTokenUrl: string;
+  /** Hub request timeout in ms (default: 5000) */
+  timeoutMs?: number;
+  /** Fetch implementation (default: global fetch) */
+  fetch?: (url: string, init?: RequestInit) => Response | Promise<Response>;
+}
+
+/**
+ * A Hub endpoint answering `{ accessToken, refreshToken? }`
+ */
+export interface HubTokenEndpoint {
+  url: string;
+  timeoutMs: number;
+  fetchFn: (url: string, init?: RequestInit) => Response | Promise<Response>;
+}
+
+/**
+ * Mock Hub for local development (created by createDevHub)
+ * Answers POST /token (code exchange) and POST /refresh in-process
+ */
+export interface DevHub {
+  /** Mock Hub endpoints (mounted by createAuthRoutes) */
+  routes: Hono;
+  /** Call a mock Hub endpoint in-process (code exchange and refresh) */
+  request: (path: string, init?: RequestInit) => Response | Promise<Response>;
+}
+
+export interface SessionCookieOptions {
+  isProduction: boolean;
+  cookieDomain?: string;
+  accessMaxAge: number;
+  refreshMaxAge: number;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+/**
+ * Resolve SessionRefreshConfig defaults
+ * With devHub, re-issues go to the mock Hub in-process instead of hubRefreshUrl
+ * (which may then be left out)
+ */
+export function resolveSessionConfig(config: SessionRefreshConfig, devHub?: DevHub) {
+  const {
+    hubRefreshUrl,
+    accessMaxAge = 15 * 60,
+    refreshMaxAge = 30 * 24 * 60 * 60,
+    renewBefore = 5 * 60,
+    maxRenewAge = 12 * 60 * 60,
+    timeoutMs = 5000,
+    fetch: fetchFn = (url, init) => fetch(url, init),
+  } = config;
+
+  let endpoint: HubTokenEndpoint;
+  if (devHub) {
+    endpoint = { url: '/refresh', timeoutMs, fetchFn: devHub.request };
+  } else if (hubRefreshUrl) {
+    endpoint = { url: hubRefreshUrl, timeoutMs, fetchFn };
+  } else {
+    throw new Error('Session: hubRefreshUrl is required');
+  }
+  return { accessMaxAge, refreshMaxAge, renewBefore, maxRenewAge, endpoint };
+}
+
+/**
+ * Resolve CodeExchangeConfig defaults
+ */
+export function resolveCodeExchangeConfig(config: CodeExchangeConfig): HubTokenEndpoint {
+  const {
+    hubTokenUrl,
+    timeoutMs = 5000,
+    fetch: fetchFn = (url, init) => fetch(url, init),
+  } = config;
+
+  if (!hubTokenUrl) {
+    throw new Error('CodeExchange: hubTokenUrl is required');
+  }
+  return { url: hubTokenUrl, timeoutMs, fetchFn };
+}
+
+/**
+ * Ask the Hub for new tokens
+ * Throws a generic Error if the Hub refuses or answers with anything unexpected
+ */
+export async function requestHubTokens(
+  endpoint: HubTokenEndpoint,
+  grant: { refreshToken: string } | { accessToken: string } | { code: string; redirectUri: string }
+): Promise<SessionTokens> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), endpoint.timeoutMs);
+
+  try {
+    const res = await endpoint.fetchFn(endpoint.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify(grant),
+      signal: controller.signal,
+    });
+    if (!res.ok) throw new Error('Token request refused');
+
+    const body = await res.json() as Partial<Record<keyof SessionTokens, unknown>>;
+    if (typeof body?.accessToken !== 'string' || !body.accessToken) {
+      throw new Error('Invalid token response');
+    }
+    if (body.refreshToken !== undefined && typeof body.refreshToken !== 'string') {
+      throw new Error('Invalid token response');
+    }
+    return { accessToken: body.accessToken, refreshToken: body.refreshToken };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Set the access cookie, and the refresh cookie if a refresh token is given
+ */
+export function setSessionCookies(c: Context, tokens: SessionTokens, options: SessionCookieOptions) {
+  setCookie(c, ACCESS_COOKIE, tokens.accessToken, {
+    httpOnly: true,
+    secure: options.isProduction,
+    sameSite: 'Lax',
+    maxAge: options.accessMaxAge,
+    path: '/',
+    domain: options.cookieDomain,
+  });
+
+  if (tokens.refreshToken) {
+    setCookie(c, REFRESH_COOKIE, tokens.refreshToken, {
+      httpOnly: true,
+      secure: options.isProduction,
+      // Only the service's own frontend ever calls POST /refresh
+      sameSite: 'Strict',
+      maxAge: options.refreshMaxAge,
+      path: REFRESH_COOKIE_PATH,
+      domain: options.cookieDomain,
+    });
+  }
+}
+
+/**
+ * Clear both session cookies
+ */
+export function clearSessionCookies(c: Context, cookieDomain?: string) {
+  deleteCookie(c, ACCESS_COOKIE, { path: '/', domain: cookieDomain });
+  deleteCookie(c, REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH, domain: cookieDomain });
+}
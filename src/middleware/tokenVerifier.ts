@@ -0,0 +1,100 @@
+/**
+ * User Token Verifier (internal)
+ * The one place user tokens are verified. Auth middleware and auth routes
+ * both build their verifier here so their checks can't drift apart.
+ *
+ * SECURITY NOTES:
+ * - Signature, algorithm pinning and standard claims are checked by verifyJwt
+ * - The payload must be a valid AuthUser
+ * - Revoked tokens (by jti or per-user watermark) are rejected; a failing
+ *   revocation store fails closed
+ * - Failures throw a generic Error, callers respond with generic messages
+ */
+import type { AuthUser } from '../types/auth.js';
+import { verifyJwt } from '../utils/jwks.js';
+import type { JwtClaimOptions, JwtKeySet } from '../utils/jwks.js';
+import { validateAuthUser } from '../utils/schema.js';
+import type { RevocationStore } from './revocationStore.js';
+
+/**
+ * A verified user with the standard claims the verifier relies on
+ */
+export type VerifiedUser = AuthUser & { jti?: string; iat?: number; exp?: number; auth_time?: number };
+
+/**
+ * Token verification settings shared by AuthMiddlewareConfig and AuthRoutesConfig
+ */
+export interface TokenVerificationConfig extends JwtClaimOptions {
+  /**
+   * JWT secret for verifying HS256 tokens
+   * MUST match the secret used by Hub to sign tokens
+   * Optional when jwtKeys is set (keep both while migrating to asymmetric keys)
+   */
+  jwtSecret?: string;
+
+  /**
+   * Public keys for verifying RS256/ES256/EdDSA tokens (see createJwtKeySet)
+   * Services only hold public keys, so rotating them needs no shared secret
+   */
+  jwtKeys?: JwtKeySet;
+
+  /**
+   * Denylist checked on every verification (see createRevocationStore)
+   * Combine with requiredClaims: ['jti'] so every token can be revoked
+   */
+  revocationStore?: RevocationStore;
+}
+
+/**
+ * Create a function that verifies a token and returns its AuthUser
+ * `owner` prefixes config errors (e.g. 'AuthMiddleware')
+ */
+export function createUserTokenVerifier(config: TokenVerificationConfig, owner: string) {
+  const {
+    jwtSecret,
+    jwtKeys,
+    issuer,
+    audience,
+    maxAge,
+    clockTolerance,
+    requiredClaims,
+    revocationStore,
+  } = config;
+
+  // Validate config at creation time (fail fast)
+  if (!jwtSecret && !jwtKeys) {
+    throw new Error(`${owner}: jwtSecret or jwtKeys is required`);
+  }
+
+  return async (token: string): Promise<VerifiedUser> => {
+    // SECURITY: Algorithms are pinned per key to prevent algorithm confusion attacks
+    const payload = await verifyJwt(token, {
+      secret: jwtSecret,
+      keySet: jwtKeys,
+      issuer,
+      audience,
+      maxAge,
+      clockTolerance,
+      requiredClaims,
+    });
+
+    const result = validateAuthUser(payload);
+    if (!result.ok) {
+      throw new Error('Invalid token payload');
+    }
+    const user = result.value as VerifiedUser;
+
+    if (revocationStore) {
+      if (typeof user.jti === 'string' && await revocationStore.isRevoked(user.jti)) {
+        throw new Error('Token revoked');
+      }
+      const revokedBefore = await revocationStore.getRevokedBefore(user.id);
+      // iat has second precision, so tokens from the watermark's second are revoked too
+      if (revokedBefore !== null && (typeof user.iat !== 'number' || user.iat * 1000 < revokedBefore)) {
+        throw new Error('Token revoked');
+      }
+    }
+
+    return user;
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * API Key Routes Factory
+ * Owner-only endpoints to mint, list and revoke API keys
+ *
+ * SECURITY NOTES:
+ * - Same authentication + owner check as createMetricsRoutes
+ * - Keys can't manage keys: requests authenticated with an API key get 403
+ * - With csrf, minting and revoking also need a trusted origin and the session's CSRF token
+ * - A minted key is returned once; only its hash is stored and listed ids are public
+ * - Scopes are limited to the configured grantable scopes, expiry to maxKeyLifetime
+ */
+import { Hono } from 'hono';
+import type { Context, Next } from 'hono';
+import type { AuthUser } from '../types/auth.js';
+import type { ApiKeyAuth } from '../middleware/apiKeyAuth.js';
+import type { ApiKeyRecord, ApiKeyStore } from '../middleware/apiKeyStore.js';
+import { authorize, anyOf, hasRole, isUser } from '../middleware/authorize.js';
+import type { CsrfProtection } from '../middleware/csrf.js';
+
+export interface ApiKeyRoutesOptions {
+  /** API key auth minting the keys */
+  apiKeys: ApiKeyAuth;
+  /** Store shared with the API key auth */
+  store: ApiKeyStore;
+  /** Middleware to require authentication (cookie session) */
+  requireAuth: (c: Context, next: Next) => Promise<Response | void>;
+  /** Function to get user from context */
+  getUser: (c: Context) => AuthUser | null | undefined;
+  /** Owner user ID (owners and admins can manage keys) */
+  ownerUserId?: string;
+  /** Additional owner user IDs */
+  ownerUserIds?: string[];
+  /** Roles that can manage keys (e.g. ['admin']) */
+  roles?: string[];
+  /** Scopes keys may be granted (default: none) */
+  scopes?: string[];
+  /** Longest key lifetime in seconds, also the default (default: 90 days) */
+  maxKeyLifetime?: number;
+  /**
+   * CSRF protection (see createCsrfProtection)
+   * Checks POST / and DELETE /:id, which are otherwise only guarded by the session cookie
+   */
+  csrf?: CsrfProtection;
+}
+
+/**
+ * Key metadata safe to return (no hash)
+ */
+function toPublicKey(record: ApiKeyRecord) {
+  return {
+    id: record.id,
+    name: record.name,
+    userId: record.user.id,
+    scopes: record.scopes,
+    createdAt: new Date(record.createdAt).toISOString(),
+    expiresAt: record.expiresAt === null ? null : new Date(record.expiresAt).toISOString(),
+    lastUsedAt: record.lastUsedAt === null ? null : new Date(record.lastUsedAt).toISOString(),
+  };
+}
+
+/**
+ * Create API key routes
+ *
+ * @example
+ * import { createApiKeyRoutes } from '@codex/shared';
+ *
+ * app.route('/api/auth/keys', createApiKeyRoutes({
+ *   apiKeys,
+ *   store: apiKeyStore,
+ *   requireAuth,
+ *   getUser,
+ *   ownerUserId: process.env.OWNER_USER_ID,
+ *   scopes: ['import:write', 'metrics:read'],
+ *   csrf,
+ * }));
+ *
+ * This creates:
+ * - GET / - List keys
+ * - POST / - Mint a key for the current user: { name, scopes?, expiresAt? }
+ * - DELETE /:id - Revoke a key
+ */
+export function createApiKeyRoutes(options: ApiKeyRoutesOptions) {
+  const {
+    apiKeys,
+    store,
+    requireAuth,
+    getUser,
+    ownerUserId,
+    ownerUserIds = [],
+    roles = [],
+    scopes: grantableScopes = [],
+    maxKeyLifetime = 90 * 24 * 60 * 60,
+    csrf,
+  } = options;
+
+  const app = new Hono();
+
+  // All key endpoints require authentication
+  app.use('/*', requireAuth);
+
+  // Keys can't be used to mint or revoke keys
+  app.use('/*', async (c, next) => {
+    if (apiKeys.isApiKeyRequest(c)) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+    await next();
+  });
+
+  // State-changing requests need a trusted origin and the session's CSRF token
+  if (csrf) {
+    app.use('/*', csrf.csrfProtection);
+  }
+
+  // Only owners and admins can manage keys
+  app.use('/*', authorize(anyOf(isUser(ownerUserId, ...ownerUserIds), hasRole(...roles)), {
+    getUser,
+    message: 'Forbidden - owner access required',
+  }));
+
+  // List keys
+  app.get('/', async (c) => {
+    const keys = await store.list();
+    keys.sort((a, b) => b.createdAt - a.createdAt);
+    return c.json({ keys: keys.map(toPublicKey) });
+  });
+
+  // Mint a key for the current user
+  app.post('/', async (c) => {
+    const user = getUser(c);
+    if (!user) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    let body: Record<string, unknown> | null = null;
+    try {
+      const parsed = await c.req.json();
+      body = typeof parsed === 'object' && parsed !== null ? parsed : null;
+    } catch {
+      // Handled below
+    }
+
+    const name = body?.name;
+    const scopes = body?.scopes ?? [];
+    const now = Date.now();
+    const latest = now + maxKeyLifetime * 1000;
+    const expiresAt = body?.expiresAt === undefined
+      ? latest
+      : typeof body.expiresAt === 'string' ? Date.parse(body.expiresAt) : NaN;
+
+    if (
+      typeof name !== 'string' || !name.trim() || name.length > 100 ||
+      !Array.isArray(scopes) || !scopes.every(scope => typeof scope === 'string') ||
+      Number.isNaN(expiresAt) || expiresAt <= now
+    ) {
+      return c.json({ error: 'Expected { name, scopes?, expiresAt? }' }, 400);
+    }
+    if (!scopes.every(scope => grantableScopes.includes(scope))) {
+      return c.json({ error: 'Scope not grantable' }, 400);
+    }
+    if (expiresAt > latest) {
+      return c.json({ error: 'Expiry exceeds maximum key lifetime' }, 400);
+    }
+
+    const { key, record } = await apiKeys.createKey(user, { name: name.trim(), scopes, expiresAt });
+    // The key is only ever shown here
+    return c.json({ key, ...toPublicKey(record) }, 201);
+  });
+
+  // Revoke a key
+  app.delete('/:id', async (c) => {
+    const deleted = await store.delete(c.req.param('id'));
+    if (!deleted) {
+      return c.json({ error: 'Not found' }, 404);
+    }
+    return c.json({ success: true });
+  });
+
+  return app;
+}
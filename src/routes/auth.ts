@@ -3,24 +3,60 @@
  * Creates standard auth endpoints that proxy to Hub
  *
  * SECURITY NOTES:
- * - Token is received via query param from Hub (trusted internal redirect)
- * - Token is verified before setting cookie
- * - Algorithm hardcoded to HS256 (prevents algorithm confusion)
+ * - Tokens come from a one-time code exchanged server-to-server with the Hub,
+ *   never via query params (unless legacyTokenCallback is explicitly enabled)
+ * - /callback only completes a login started by /login in the same browser
+ *   (signed state + nonce cookie, prevents login CSRF / session fixation)
+ * - returnTo must match allowedReturnTo and travels through the Hub inside a
+ *   signed, expiring state (no open redirects)
+ * - Token is verified (signature and AuthUser payload shape) before setting cookie
+ * - HS256 only with jwtSecret, asymmetric algorithms pinned per key in jwtKeys
+ *   (prevents algorithm confusion)
+ * - Same verifier as the auth middleware (claims checks can't drift apart)
  * - Cookie is HttpOnly, Secure in production, SameSite=Lax
+ * - With session refresh: short-lived access cookie, refresh cookie is
+ *   HttpOnly, SameSite=Strict and scoped to /api/auth
+ * - With csrf: POST routes require a trusted origin, and logout routes a
+ *   CSRF token bound to the user
+ * - devHub (local development only) replaces the Hub with a mock login page
  * - Generic error messages to prevent information leakage
  */
+import { randomBytes } from 'node:crypto';
 import { Hono } from 'hono';
-import { getCookie, setCookie, deleteCookie } from 'hono/cookie';
-import jwt from 'jsonwebtoken';
-import type { AuthUser } from '../types/auth.js';
-
-export interface AuthRoutesConfig {
-  /**
-   * JWT secret for verifying tokens
-   * MUST match the secret used by Hub to sign tokens
-   */
-  jwtSecret: string;
+import type { Context } from 'hono';
+import { getCookie, deleteCookie, setCookie } from 'hono/cookie';
+import { createUserTokenVerifier } from '../middleware/tokenVerifier.js';
+import type { TokenVerificationConfig, VerifiedUser } from '../middleware/tokenVerifier.js';
+import {
+  ACCESS_COOKIE,
+  REFRESH_COOKIE,
+  clearSessionCookies,
+  requestHubTokens,
+  resolveCodeExchangeConfig,
+  resolveSessionConfig,
+  setSessionCookies,
+} from '../middleware/session.js';
+import type {
+  CodeExchangeConfig,
+  DevHub,
+  HubTokenEndpoint,
+  SessionRefreshConfig,
+  SessionTokens,
+} from '../middleware/session.js';
+import type { CsrfProtection } from '../middleware/csrf.js';
+import {
+  LOGIN_STATE_COOKIE,
+  createReturnToPolicy,
+  isNonceMatch,
+  signLoginState,
+  verifyLoginState,
+} from '../middleware/loginState.js';
 
+/**
+ * Token settings (jwtSecret/jwtKeys, issuer, audience, maxAge, clockTolerance,
+ * requiredClaims) are shared with createAuthMiddleware; use the same values
+ */
+export interface AuthRoutesConfig extends TokenVerificationConfig {
   /**
    * Hub's public URL for OAuth redirects
    * e.g., 'https://hub.example.com' or 'http://localhost:6100'
@@ -39,6 +75,19 @@ export interface AuthRoutesConfig {
    */
   frontendUrl: string;
 
+  /**
+   * One-time login code exchange with the Hub
+   * Required unless legacyTokenCallback is set
+   */
+  codeExchange?: CodeExchangeConfig;
+
+  /**
+   * Accept the JWT as ?token= on /callback (legacy Hubs without code exchange)
+   * The token ends up in logs, browser history and Referer headers; migrate to codeExchange
+   * Default: false
+   */
+  legacyTokenCallback?: boolean;
+
   /**
    * Whether running in production (affects cookie security)
    * Default: process.env.NODE_ENV === 'production'
@@ -48,15 +97,52 @@ export interface AuthRoutesConfig {
   /**
    * Cookie max age in seconds
    * Default: 7 days (604800 seconds)
+   * Ignored when session is set (session.accessMaxAge applies)
    */
   cookieMaxAge?: number;
 
+  /**
+   * Short-lived access tokens plus a refresh cookie (optional)
+   * Use the same settings as createAuthMiddleware
+   */
+  session?: SessionRefreshConfig;
+
   /**
    * Cookie domain for cross-subdomain auth
    * e.g., '.example.com' to share cookie across all subdomains
    * IMPORTANT: Must match Hub's cookie domain for logout to work properly
    */
   cookieDomain?: string;
+
+  /**
+   * Where users may be sent back to after login: origins, or origin + path prefix
+   * e.g. ['https://app.example.com', 'https://admin.example.com/settings']
+   * Default: [frontendUrl]
+   */
+  allowedReturnTo?: string[];
+
+  /**
+   * Secret for signing the login state (at least 32 characters)
+   * Default: random per process, so set it when running more than one replica
+   */
+  stateSecret?: string;
+
+  /**
+   * How long a login may take, in seconds (default: 600)
+   */
+  stateMaxAge?: number;
+
+  /**
+   * Mock Hub for local development (see createDevHub)
+   * Mounted under /dev-hub; logins, code exchange and refresh go to it instead of the Hub
+   */
+  devHub?: DevHub;
+
+  /**
+   * CSRF protection (see createCsrfProtection)
+   * Adds csrfToken to /me and GET /csrf, and checks POST routes
+   */
+  csrf?: CsrfProtection;
 }
 
 /**
@@ -71,6 +157,7 @@ export interface AuthRoutesConfig {
  *   hubPublicUrl: env.hubPublicUrl,
  *   selfUrl: env.selfUrl,
  *   frontendUrl: env.frontendUrl,
+ *   codeExchange: { hubTokenUrl: `${env.hubInternalUrl}/api/auth/token` },
  * });
  *
  * app.route('/api/auth', authRoutes);
@@ -78,24 +165,39 @@ export interface AuthRoutesConfig {
  *
  * This creates:
  * - GET /api/auth/me - Check if user is authenticated
- * - GET /api/auth/login - Redirect to Hub login
- * - GET /api/auth/callback - Receive token from Hub
- * - POST /api/auth/logout - Clear auth cookie
+ * - GET /api/auth/csrf - Get a CSRF token (csrf only)
+ * - GET /api/auth/login - Redirect to Hub login (?returnTo=<allowed URL>)
+ * - GET /api/auth/callback - Exchange the Hub's login code, redirect to returnTo
+ * - POST /api/auth/refresh - Exchange the refresh cookie for new tokens (session only)
+ * - POST /api/auth/logout - Clear auth cookies (and revoke the token's jti)
+ * - POST /api/auth/logout-all - Revoke all of the user's sessions (revocationStore only)
  */
 export function createAuthRoutes(config: AuthRoutesConfig) {
   const {
-    jwtSecret,
     hubPublicUrl,
     selfUrl,
     frontendUrl,
     isProduction = process.env.NODE_ENV === 'production',
     cookieMaxAge = 60 * 60 * 24 * 7, // 7 days
     cookieDomain,
+    revocationStore,
+    csrf,
+    legacyTokenCallback = false,
+    devHub,
+    allowedReturnTo = [frontendUrl],
+    stateSecret = randomBytes(32).toString('base64url'),
+    stateMaxAge = 10 * 60,
   } = config;
 
   // Validate config at creation time (fail fast)
-  if (!jwtSecret) {
-    throw new Error('AuthRoutes: jwtSecret is required');
+  const verifyUserToken = createUserTokenVerifier(config, 'AuthRoutes');
+  // With devHub, token requests go to the mock Hub in-process
+  const session = config.session ? resolveSessionConfig(config.session, devHub) : undefined;
+  const codeExchange: HubTokenEndpoint | undefined = devHub
+    ? { url: '/token', timeoutMs: 5000, fetchFn: devHub.request }
+    : config.codeExchange ? resolveCodeExchangeConfig(config.codeExchange) : undefined;
+  if (!codeExchange && !legacyTokenCallback) {
+    throw new Error('AuthRoutes: codeExchange is required (or legacyTokenCallback: true)');
   }
   if (!hubPublicUrl) {
     throw new Error('AuthRoutes: hubPublicUrl is required');
@@ -106,22 +208,45 @@ export function createAuthRoutes(config: AuthRoutesConfig) {
   if (!frontendUrl) {
     throw new Error('AuthRoutes: frontendUrl is required');
   }
+  if (stateSecret.length < 32) {
+    throw new Error('AuthRoutes: stateSecret must be at least 32 characters');
+  }
+  const resolveReturnTo = createReturnToPolicy(allowedReturnTo, frontendUrl);
 
   const app = new Hono();
 
+  // Mock Hub (its login form posts from selfUrl, so it's mounted before origin checks)
+  if (devHub) {
+    app.route('/dev-hub', devHub.routes);
+  }
+
+  // POST requests must come from a trusted origin (safe methods are exempt)
+  if (csrf) {
+    app.use('/*', csrf.originProtection);
+  }
+
   // Callback URL for Hub to redirect back to
   const callbackUrl = `${selfUrl}/api/auth/callback`;
 
-  // Hub's Google OAuth endpoint
-  const hubAuthUrl = `${hubPublicUrl}/api/auth/google`;
+  // Hub's Google OAuth endpoint (or the mock Hub's login page)
+  const hubAuthUrl = devHub ? `${selfUrl}/api/auth/dev-hub/login` : `${hubPublicUrl}/api/auth/google`;
+
+  // Logins go through /login so returnTo is checked and signed into the state
+  const loginUrl = `${selfUrl}/api/auth/login`;
+
+  const cookieOptions = {
+    isProduction,
+    cookieDomain,
+    accessMaxAge: session?.accessMaxAge ?? cookieMaxAge,
+    refreshMaxAge: session?.refreshMaxAge ?? cookieMaxAge,
+  };
 
   /**
    * GET /me - Check if user is authenticated
    * Returns user info if authenticated, or loginUrl if not
    */
-  app.get('/me', (c) => {
-    const token = getCookie(c, 'auth_token');
-    const loginUrl = `${hubAuthUrl}?returnTo=${encodeURIComponent(callbackUrl)}`;
+  app.get('/me', async (c) => {
+    const token = getCookie(c, ACCESS_COOKIE);
 
     if (!token) {
       return c.json({
@@ -132,15 +257,14 @@ export function createAuthRoutes(config: AuthRoutesConfig) {
     }
 
     try {
-      // SECURITY: Algorithm hardcoded to prevent confusion attacks
-      const user = jwt.verify(token, jwtSecret, {
-        algorithms: ['HS256'],
-      }) as AuthUser;
-
+      const user = await verifyUserToken(token);
+      if (csrf) {
+        return c.json({ authenticated: true, user, csrfToken: csrf.issueToken(c, user.id) });
+      }
       return c.json({ authenticated: true, user });
     } catch {
       // Invalid or expired token - clear it
-      deleteCookie(c, 'auth_token', { path: '/', domain: cookieDomain });
+      deleteCookie(c, ACCESS_COOKIE, { path: '/', domain: cookieDomain });
       return c.json({
         authenticated: false,
         user: null,
@@ -149,56 +273,208 @@ export function createAuthRoutes(config: AuthRoutesConfig) {
     }
   });
 
+  /**
+   * GET /csrf - Get a CSRF token for the current session
+   * Bound to the user when authenticated (same token as /me)
+   */
+  if (csrf) {
+    app.get('/csrf', async (c) => {
+      const token = getCookie(c, ACCESS_COOKIE);
+      let userId: string | null = null;
+      if (token) {
+        try {
+          userId = (await verifyUserToken(token)).id;
+        } catch {
+          // Invalid token, issue an anonymous token
+        }
+      }
+      return c.json({ csrfToken: csrf.issueToken(c, userId) });
+    });
+  }
+
+  /**
+   * Check the CSRF token of a logout request for the token's user
+   */
+  const hasValidCsrfToken = (c: Context, userId: string) => !csrf || csrf.hasValidToken(c, userId);
+
+  // Login nonce cookie: host-only, and __Host- prefixed in production so
+  // sibling subdomains can't plant one
+  const loginCookieOptions = {
+    httpOnly: true,
+    secure: isProduction,
+    // Lax so it's sent on the Hub's top-level redirect back to /callback
+    sameSite: 'Lax' as const,
+    path: '/',
+    prefix: isProduction ? 'host' as const : undefined,
+  };
+
   /**
    * GET /login - Redirect to Hub login
    * Accepts optional returnTo query param for post-login redirect
+   * (must match allowedReturnTo, otherwise frontendUrl is used)
    */
   app.get('/login', (c) => {
-    const returnTo = c.req.query('returnTo') || callbackUrl;
-    return c.redirect(`${hubAuthUrl}?returnTo=${encodeURIComponent(returnTo)}`);
+    const returnTo = resolveReturnTo(c.req.query('returnTo') || '') ?? frontendUrl;
+    const nonce = randomBytes(16).toString('base64url');
+    const state = signLoginState({ returnTo, nonce, expiresAt: Date.now() + stateMaxAge * 1000 }, stateSecret);
+
+    setCookie(c, LOGIN_STATE_COOKIE, nonce, { ...loginCookieOptions, maxAge: stateMaxAge });
+
+    // The Hub sends the user back to the callback with state untouched
+    const hubReturnTo = `${callbackUrl}?state=${encodeURIComponent(state)}`;
+    return c.redirect(`${hubAuthUrl}?returnTo=${encodeURIComponent(hubReturnTo)}`);
   });
 
   /**
-   * GET /callback - Receive token from Hub and set local cookie
-   * Hub redirects here with ?token=<jwt> after successful OAuth
+   * GET /callback - Complete a login started by /login and set local cookies
+   * Hub redirects here with ?code=<one-time code> after successful OAuth,
+   * keeping the state from /login. The code is exchanged server-to-server.
+   * With legacyTokenCallback, ?token=<jwt> (and &refreshToken=<token>) is accepted instead.
    */
-  app.get('/callback', (c) => {
-    const token = c.req.query('token');
+  app.get('/callback', async (c) => {
+    // SECURITY: Keep the code (or token) in this URL out of Referer headers
+    c.header('Referrer-Policy', 'no-referrer');
 
-    if (!token) {
+    // SECURITY: The login must have started in this browser; the nonce is used once
+    const state = verifyLoginState(c.req.query('state'), stateSecret);
+    const nonce = getCookie(c, LOGIN_STATE_COOKIE, loginCookieOptions.prefix);
+    deleteCookie(c, LOGIN_STATE_COOKIE, loginCookieOptions);
+    if (!state || !isNonceMatch(state, nonce)) {
+      return c.redirect(`${frontendUrl}?error=invalid_state`);
+    }
+
+    const code = c.req.query('code');
+    const legacyToken = legacyTokenCallback ? c.req.query('token') : undefined;
+
+    let tokens: SessionTokens;
+    if (codeExchange && code) {
+      try {
+        tokens = await requestHubTokens(codeExchange, { code, redirectUri: callbackUrl });
+      } catch {
+        // SECURITY: Generic error, Hub errors are not echoed
+        return c.redirect(`${frontendUrl}?error=invalid_code`);
+      }
+    } else if (legacyToken) {
+      tokens = { accessToken: legacyToken, refreshToken: c.req.query('refreshToken') };
+    } else {
       return c.redirect(`${frontendUrl}?error=no_token`);
     }
 
     try {
       // SECURITY: Verify token before trusting it
-      jwt.verify(token, jwtSecret, {
-        algorithms: ['HS256'],
-      });
+      await verifyUserToken(tokens.accessToken);
+    } catch {
+      return c.redirect(`${frontendUrl}?error=invalid_token`);
+    }
 
-      // Set HttpOnly cookie
-      setCookie(c, 'auth_token', token, {
-        httpOnly: true,
-        secure: isProduction,
-        sameSite: 'Lax',
-        maxAge: cookieMaxAge,
-        path: '/',
-        domain: cookieDomain,
-      });
+    // Set HttpOnly cookies (the refresh cookie only with session refresh)
+    setSessionCookies(c, {
+      accessToken: tokens.accessToken,
+      refreshToken: session ? tokens.refreshToken : undefined,
+    }, cookieOptions);
 
-      // Redirect to frontend
-      return c.redirect(frontendUrl);
+    // Redirect to the returnTo signed at /login (query string included)
+    return c.redirect(resolveReturnTo(state.returnTo) ?? frontendUrl);
+  });
+
+  /**
+   * POST /refresh - Exchange the refresh cookie for new tokens
+   * Frontends call this when an API request returns 401, then retry once
+   */
+  app.post('/refresh', async (c) => {
+    const refreshToken = getCookie(c, REFRESH_COOKIE);
+
+    if (!session || !refreshToken) {
+      return c.json({ error: 'Unauthorized', loginUrl }, 401);
+    }
+
+    try {
+      const tokens = await requestHubTokens(session.endpoint, { refreshToken });
+      // SECURITY: Verify the new token before setting it
+      const user = await verifyUserToken(tokens.accessToken);
+      setSessionCookies(c, tokens, cookieOptions);
+      return c.json({ authenticated: true, user });
     } catch {
-      return c.redirect(`${frontendUrl}?error=invalid_token`);
+      // SECURITY: Generic error message, Hub errors are not echoed
+      clearSessionCookies(c, cookieDomain);
+      return c.json({ error: 'Invalid token', loginUrl }, 401);
+    }
+  });
+
+  // Longest a token issued here can stay valid (how long revocations must be kept)
+  const sessionLifetimeMs = Math.max(cookieOptions.accessMaxAge, cookieOptions.refreshMaxAge) * 1000;
+
+  /**
+   * POST /logout - Clear auth cookies
+   * With a revocationStore, the access token's jti is revoked until it expires
+   */
+  app.post('/logout', async (c) => {
+    const token = getCookie(c, ACCESS_COOKIE);
+    let user: VerifiedUser | null = null;
+    if (token && (revocationStore || csrf)) {
+      try {
+        user = await verifyUserToken(token);
+      } catch {
+        // Invalid or already revoked token, nothing to revoke
+      }
+    }
+
+    // Without a valid session there's nothing to protect, just clear cookies
+    if (user && !hasValidCsrfToken(c, user.id)) {
+      return c.json({ error: 'Forbidden' }, 403);
     }
+
+    if (user?.jti && revocationStore) {
+      const expiresAt = user.exp !== undefined ? user.exp * 1000 : Date.now() + sessionLifetimeMs;
+      try {
+        await revocationStore.revoke(user.jti, expiresAt);
+      } catch {
+        // Store unavailable, still clear the cookies
+      }
+    }
+
+    clearSessionCookies(c, cookieDomain);
+    csrf?.clearToken(c);
+    return c.json({ success: true });
   });
 
   /**
-   * POST /logout - Clear auth cookie
+   * POST /logout-all - Revoke every session of the current user
+   * Tokens issued before now are rejected by every service sharing the store.
+   * The Hub must check the same store before honouring refresh tokens.
    */
-  app.post('/logout', (c) => {
-    deleteCookie(c, 'auth_token', { path: '/', domain: cookieDomain });
+  app.post('/logout-all', async (c) => {
+    const token = getCookie(c, ACCESS_COOKIE);
+    if (!revocationStore || !token) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    let user: VerifiedUser;
+    try {
+      user = await verifyUserToken(token);
+    } catch {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    if (!hasValidCsrfToken(c, user.id)) {
+      return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    try {
+      const now = Date.now();
+      await revocationStore.revokeBefore(user.id, now, now + sessionLifetimeMs);
+    } catch {
+      // The credentials are fine, the store isn't (sessions stay valid)
+      return c.json({ error: 'Service unavailable' }, 503);
+    }
+
+    clearSessionCookies(c, cookieDomain);
+    csrf?.clearToken(c);
     return c.json({ success: true });
   });
 
   return app;
 }
+
+// Re-export for convenience
+export type { CodeExchangeConfig } from '../middleware/session.js';
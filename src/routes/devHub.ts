@@ -0,0 +1,275 @@
+/**
+ * Dev Hub (local development only)
+ * A mock Hub that lets you log in as fake users without running the real Hub
+ * or Google OAuth. createAuthRoutes mounts it under /api/auth/dev-hub.
+ *
+ * Implements the Hub contract the auth routes rely on: a login page that
+ * redirects back with a one-time code, the code exchange and token refresh.
+ *
+ * SECURITY NOTES:
+ * - Refuses to start when NODE_ENV=production, isProduction is set, or the Hub
+ *   or service URL isn't local (localhost, loopback, private network, single-label host)
+ * - Anyone reaching it can log in as anyone: never expose it
+ * - Tokens are signed with the configured secret (or signing key), so they are
+ *   verified exactly like real Hub tokens
+ * - Only redirects back to the service's own origin
+ */
+import { randomBytes, randomUUID } from 'node:crypto';
+import { Hono } from 'hono';
+import type { AuthUser } from '../types/auth.js';
+import { signJwt } from '../utils/jwks.js';
+import type { JwtSigningKey } from '../utils/jwks.js';
+import { validateAuthUser } from '../utils/schema.js';
+import type { DevHub } from '../middleware/session.js';
+
+export type { DevHub } from '../middleware/session.js';
+
+export interface DevHubConfig {
+  /** Hub URL the service is configured with (must be local) */
+  hubPublicUrl: string;
+  /** This service's public API URL (must be local) */
+  selfUrl: string;
+  /** Secret for signing HS256 tokens (the service's jwtSecret) */
+  jwtSecret?: string;
+  /** Key for signing asymmetric tokens (its public key must be in the service's jwtKeys) */
+  signingKey?: JwtSigningKey;
+  /** Identities offered on the login page (default: one dev user) */
+  users?: AuthUser[];
+  /** `iss` of minted tokens (first value if a list) */
+  issuer?: string | string[];
+  /** `aud` of minted tokens (first value if a list) */
+  audience?: string | string[];
+  /** Access token lifetime in seconds (default: 1 hour) */
+  tokenTtl?: number;
+  /**
+   * Must be false (refuses to start otherwise)
+   * Default: process.env.NODE_ENV === 'production'
+   */
+  isProduction?: boolean;
+}
+
+const DEFAULT_USERS: AuthUser[] = [
+  { id: 'dev-user', email: 'dev@localhost', name: 'Dev User' },
+];
+
+/**
+ * Whether a URL points at this machine or a private network
+ */
+function isLocalUrl(value: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(value).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return false;
+  }
+
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname === '::1') return true;
+  // Docker service names and other single-label hosts don't resolve publicly
+  if (!hostname.includes('.') && !hostname.includes(':')) return true;
+  if (/\.(local|internal|test)$/.test(hostname)) return true;
+
+  const octets = hostname.split('.').map(Number);
+  if (octets.length !== 4 || octets.some(n => !Number.isInteger(n) || n < 0 || n > 255)) return false;
+  const [a, b] = octets;
+  return a === 127 || a === 10 || (a === 192 && b === 168) || (a === 172 && b >= 16 && b <= 31);
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
+
+const splitList = (value: unknown) =>
+  typeof value === 'string' ? value.split(',').map(s => s.trim()).filter(Boolean) : [];
+
+/**
+ * Create a mock Hub for local development
+ *
+ * @example
+ * const devHub = process.env.DEV_AUTH === 'true'
+ *   ? createDevHub({ ...authConfig, users: [{ id: 'owner', email: 'owner@localhost', name: 'Owner', roles: ['admin'] }] })
+ *   : undefined;
+ *
+ * app.route('/api/auth', createAuthRoutes({ ...authConfig, devHub }));
+ * const { requireAuth } = createAuthMiddleware({ ...authConfig, devHub });
+ */
+export function createDevHub(config: DevHubConfig): DevHub {
+  const {
+    hubPublicUrl,
+    selfUrl,
+    jwtSecret,
+    signingKey = jwtSecret ? { alg: 'HS256', secret: jwtSecret } : undefined,
+    users = DEFAULT_USERS,
+    issuer,
+    audience,
+    tokenTtl = 60 * 60,
+    isProduction = process.env.NODE_ENV === 'production',
+  } = config;
+
+  // SECURITY: Refuse to run anywhere but a developer's machine
+  if (process.env.NODE_ENV === 'production' || isProduction) {
+    throw new Error('DevHub: refusing to start in production');
+  }
+  if (!isLocalUrl(hubPublicUrl) || !isLocalUrl(selfUrl)) {
+    throw new Error('DevHub: refusing to start with a public hubPublicUrl or selfUrl');
+  }
+  if (!signingKey) {
+    throw new Error('DevHub: jwtSecret or signingKey is required');
+  }
+
+  const selfOrigin = new URL(selfUrl).origin;
+  const iss = Array.isArray(issuer) ? issuer[0] : issuer;
+  const aud = Array.isArray(audience) ? audience[0] : audience;
+
+  // One-time codes, refresh tokens and issued token ids (in-memory, dev only)
+  // Sessions remember their login time, which re-issued tokens keep as auth_time
+  type DevSession = { user: AuthUser; authTime: number };
+  const codes = new Map<string, { user: AuthUser; redirectUri: string; expiresAt: number }>();
+  const refreshTokens = new Map<string, DevSession>();
+  const issued = new Map<string, DevSession>();
+
+  const mintTokens = (session: DevSession) => {
+    const now = Math.floor(Date.now() / 1000);
+    const jti = randomUUID();
+    const accessToken = signJwt({
+      ...session.user,
+      ...(iss ? { iss } : {}),
+      ...(aud ? { aud } : {}),
+      iat: now,
+      exp: now + tokenTtl,
+      auth_time: session.authTime,
+      jti,
+    }, signingKey);
+    issued.set(jti, session);
+
+    const refreshToken = randomBytes(32).toString('base64url');
+    refreshTokens.set(refreshToken, session);
+    return { accessToken, refreshToken };
+  };
+
+  const isOwnUrl = (value: string) => {
+    try {
+      return new URL(value).origin === selfOrigin;
+    } catch {
+      return false;
+    }
+  };
+
+  const routes = new Hono();
+
+  /**
+   * GET /login - Pick or define a fake user
+   */
+  routes.get('/login', (c) => {
+    const returnTo = c.req.query('returnTo') || '';
+    if (!isOwnUrl(returnTo)) {
+      return c.text('Invalid returnTo', 400);
+    }
+
+    const hidden = `<input type="hidden" name="returnTo" value="${escapeHtml(returnTo)}">`;
+    const presets = users.map((user, index) => `
+      <form method="post">${hidden}<input type="hidden" name="preset" value="${index}">
+        <button>${escapeHtml(user.name)} &lt;${escapeHtml(user.email)}&gt;
+        ${user.roles?.length ? `[${escapeHtml(user.roles.join(', '))}]` : ''}</button>
+      </form>`).join('');
+
+    return c.html(`<!doctype html>
+<html><head><title>Dev Hub login</title></head>
+<body style="font-family: sans-serif; max-width: 32rem; margin: 2rem auto">
+  <h1>Dev Hub login</h1>
+  <p><strong>Local development only.</strong> Pick a user:</p>
+  ${presets}
+  <h2>Or define one</h2>
+  <form method="post">${hidden}
+    <p><label>ID <input name="id" required></label></p>
+    <p><label>Email <input name="email" required></label></p>
+    <p><label>Name <input name="name" required></label></p>
+    <p><label>Roles <input name="roles" placeholder="admin, editor"></label></p>
+    <p><label>Scopes <input name="scopes" placeholder="items:write"></label></p>
+    <button>Log in</button>
+  </form>
+</body></html>`);
+  });
+
+  /**
+   * POST /login - Log in as the chosen user, redirect back with a one-time code
+   */
+  routes.post('/login', async (c) => {
+    const form = await c.req.parseBody();
+    const returnTo = typeof form.returnTo === 'string' ? form.returnTo : '';
+    if (!isOwnUrl(returnTo)) {
+      return c.text('Invalid returnTo', 400);
+    }
+
+    let user: AuthUser | undefined;
+    if (typeof form.preset === 'string') {
+      user = users[Number(form.preset)];
+    } else {
+      const roles = splitList(form.roles);
+      const scopes = splitList(form.scopes);
+      const result = validateAuthUser({
+        id: form.id,
+        email: form.email,
+        name: form.name,
+        ...(roles.length ? { roles } : {}),
+        ...(scopes.length ? { scopes } : {}),
+      });
+      user = result.ok ? result.value : undefined;
+    }
+    if (!user) {
+      return c.text('Invalid user', 400);
+    }
+
+    const code = randomBytes(16).toString('base64url');
+    const url = new URL(returnTo);
+    codes.set(code, { user, redirectUri: `${url.origin}${url.pathname}`, expiresAt: Date.now() + 60 * 1000 });
+    url.searchParams.set('code', code);
+    return c.redirect(url.href);
+  });
+
+  /**
+   * POST /token - Exchange a one-time code: { code, redirectUri }
+   */
+  routes.post('/token', async (c) => {
+    const body = await c.req.json().catch(() => null);
+    const entry = typeof body?.code === 'string' ? codes.get(body.code) : undefined;
+    if (!entry) {
+      return c.json({ error: 'Invalid code' }, 400);
+    }
+    codes.delete(body.code);
+    if (entry.expiresAt <= Date.now() || entry.redirectUri !== body.redirectUri) {
+      return c.json({ error: 'Invalid code' }, 400);
+    }
+    return c.json(mintTokens({ user: entry.user, authTime: Math.floor(Date.now() / 1000) }));
+  });
+
+  /**
+   * POST /refresh - Re-issue tokens: { refreshToken } or { accessToken }
+   */
+  routes.post('/refresh', async (c) => {
+    const body = await c.req.json().catch(() => null);
+
+    let session: DevSession | undefined;
+    if (typeof body?.refreshToken === 'string') {
+      session = refreshTokens.get(body.refreshToken);
+      // Rotation: each refresh token is used once
+      refreshTokens.delete(body.refreshToken);
+    } else if (typeof body?.accessToken === 'string') {
+      try {
+        const payload = JSON.parse(Buffer.from(body.accessToken.split('.')[1], 'base64url').toString('utf8'));
+        // Only tokens minted here (looked up by jti, not trusted from the payload)
+        session = typeof payload.jti === 'string' ? issued.get(payload.jti) : undefined;
+      } catch {
+        session = undefined;
+      }
+    }
+
+    if (!session) {
+      return c.json({ error: 'Invalid token' }, 401);
+    }
+    return c.json(mintTokens(session));
+  });
+
+  return {
+    routes,
+    request: (path, init) => routes.request(path, init),
+  };
+}
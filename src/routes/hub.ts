@@ -0,0 +1,225 @@
+/**
+ * Hub Routes Factory
+ * Creates the health and summary endpoints the Hub polls
+ *
+ * SECURITY NOTES:
+ * - Dependency check errors are never echoed, only 'failed' / 'timeout'
+ * - Summary callbacks run per request, keep them cheap
+ */
+import { Hono } from 'hono';
+import type {
+  DependencyCheckResult,
+  HealthCheckResponse,
+  HubSummaryResponse,
+} from '../types/hub.js';
+import type { MetricsStore } from '../middleware/metrics.js';
+import { getAggregatedStats } from '../middleware/metrics.js';
+import { SCHEMA_VERSION } from '../utils/schema.js';
+
+type HubMetric = HubSummaryResponse['metrics']['primary'];
+
+/**
+ * A dependency check (DB ping, disk space, upstream service...)
+ * Resolving (to anything but false) means healthy; throwing or false means failed
+ */
+export interface DependencyCheck {
+  name: string;
+  check: () => Promise<unknown> | unknown;
+  /** Whether a failure makes the service unhealthy (default: true) */
+  critical?: boolean;
+  /** Timeout in ms (default: HubRoutesConfig.checkTimeoutMs) */
+  timeoutMs?: number;
+}
+
+/**
+ * Service-specific part of the Hub summary
+ */
+export interface HubSummaryInput {
+  /** Headline metric (default: external request count from metricsStore) */
+  primary?: HubMetric;
+  /** Extra metrics (default: request stats from metricsStore) */
+  secondary?: HubMetric[];
+  /** When the service's data last changed (default: metricsStore last update, else now; invalid dates report 'stale') */
+  lastUpdated?: string | Date;
+  objectiveProgress?: number;
+}
+
+export interface HubRoutesConfig {
+  /** Service name reported to the Hub */
+  service: string;
+  /** Dependency checks run by /health and /hub/summary */
+  checks?: DependencyCheck[];
+  /** Service-specific summary (optional) */
+  summary?: () => Promise<HubSummaryInput> | HubSummaryInput;
+  /** Metrics store for default summary metrics (optional) */
+  metricsStore?: MetricsStore;
+  /** Seconds since lastUpdated before status is 'stale' (default: 1 day) */
+  staleAfter?: number;
+  /** Seconds since lastUpdated before status is 'offline' (default: never) */
+  offlineAfter?: number;
+  /** Default check timeout in ms (default: 2000) */
+  checkTimeoutMs?: number;
+}
+
+/**
+ * Run one dependency check with a timeout
+ */
+async function runCheck(check: DependencyCheck, defaultTimeoutMs: number): Promise<DependencyCheckResult> {
+  const start = Date.now();
+  const critical = check.critical ?? true;
+  const timeoutMs = check.timeoutMs ?? defaultTimeoutMs;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<'timeout'>((resolve) => {
+    timer = setTimeout(() => resolve('timeout'), timeoutMs);
+  });
+
+  try {
+    const result = await Promise.race([Promise.resolve().then(check.check), timeout]);
+    if (result === 'timeout') {
+      return { ok: false, latencyMs: Date.now() - start, error: 'timeout', critical };
+    }
+    if (result === false) {
+      return { ok: false, latencyMs: Date.now() - start, error: 'failed', critical };
+    }
+    return { ok: true, latencyMs: Date.now() - start, critical };
+  } catch {
+    // SECURITY: Error details may contain hosts or credentials, never echo them
+    return { ok: false, latencyMs: Date.now() - start, error: 'failed', critical };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Default summary metrics from a metrics store
+ */
+function getDefaultMetrics(store: MetricsStore): { primary: HubMetric; secondary: HubMetric[] } {
+  const stats = getAggregatedStats(store);
+
+  let serverErrors = 0;
+  for (const [status, count] of Object.entries(stats.requestsByStatus)) {
+    if (parseInt(status, 10) >= 500) serverErrors += count;
+  }
+  const errorRate = stats.totalRequests > 0 ? (serverErrors / stats.totalRequests) * 100 : 0;
+
+  return {
+    primary: { label: 'Requests', value: stats.externalRequests },
+    secondary: [
+      { label: 'Error rate', value: `${errorRate.toFixed(1)}%` },
+      { label: 'p50 latency', value: `${stats.latency?.p50 ?? 0}ms` },
+      { label: 'p99 latency', value: `${stats.latency?.p99 ?? 0}ms` },
+      { label: 'Suspicious', value: stats.suspiciousRequests },
+    ],
+  };
+}
+
+/**
+ * Create Hub health and summary routes
+ *
+ * @example
+ * import { createHubRoutes } from '@codex/shared';
+ *
+ * const hubRoutes = createHubRoutes({
+ *   service: 'my-service',
+ *   metricsStore,
+ *   checks: [
+ *     { name: 'db', check: () => db.ping() },
+ *     { name: 'search', check: () => fetch(env.searchUrl).then(r => r.ok), critical: false },
+ *   ],
+ *   summary: async () => ({
+ *     primary: { label: 'Items', value: await countItems() },
+ *     lastUpdated: await getLastImportTime(),
+ *   }),
+ * });
+ *
+ * app.route('/', hubRoutes);
+ *
+ * This creates:
+ * - GET /health - Liveness plus dependency checks (503 if a critical check fails)
+ * - GET /hub/summary - HubSummaryResponse for the Hub dashboard
+ */
+export function createHubRoutes(config: HubRoutesConfig) {
+  const {
+    service,
+    checks = [],
+    summary,
+    metricsStore,
+    staleAfter = 24 * 60 * 60,
+    offlineAfter,
+    checkTimeoutMs = 2000,
+  } = config;
+
+  // Validate config at creation time (fail fast)
+  if (!service) {
+    throw new Error('HubRoutes: service is required');
+  }
+
+  const app = new Hono();
+
+  const runChecks = async () => {
+    const results = await Promise.all(checks.map(check => runCheck(check, checkTimeoutMs)));
+    const byName: Record<string, DependencyCheckResult> = {};
+    checks.forEach((check, i) => { byName[check.name] = results[i]; });
+    const healthy = results.every(result => result.ok || !result.critical);
+    return { byName, healthy };
+  };
+
+  /**
+   * GET /health - Liveness and dependency checks
+   */
+  app.get('/health', async (c) => {
+    const { byName, healthy } = await runChecks();
+    const response: HealthCheckResponse = {
+      status: healthy ? 'ok' : 'error',
+      service,
+      timestamp: new Date().toISOString(),
+      ...(checks.length > 0 && { checks: byName }),
+      schemaVersion: SCHEMA_VERSION,
+    };
+    return c.json(response, healthy ? 200 : 503);
+  });
+
+  /**
+   * GET /hub/summary - Dashboard summary
+   */
+  app.get('/hub/summary', async (c) => {
+    const { healthy } = await runChecks();
+    const defaults = metricsStore ? getDefaultMetrics(metricsStore) : undefined;
+
+    let input: HubSummaryInput = {};
+    let summaryFailed = false;
+    try {
+      input = (await summary?.()) ?? {};
+    } catch {
+      summaryFailed = true;
+    }
+
+    const lastUpdatedInput = input.lastUpdated ?? metricsStore?.stats.lastUpdated;
+    const lastUpdated = lastUpdatedInput ? new Date(lastUpdatedInput) : new Date();
+    // An unparseable lastUpdated means freshness is unknown: stale, reported as the epoch
+    const known = !Number.isNaN(lastUpdated.getTime());
+    const age = (Date.now() - lastUpdated.getTime()) / 1000;
+
+    let status: HubSummaryResponse['status'] = 'healthy';
+    if (!healthy || summaryFailed) status = 'error';
+    else if (!known) status = 'stale';
+    else if (offlineAfter !== undefined && age > offlineAfter) status = 'offline';
+    else if (age > staleAfter) status = 'stale';
+
+    const response: HubSummaryResponse = {
+      service,
+      lastUpdated: (known ? lastUpdated : new Date(0)).toISOString(),
+      status,
+      metrics: {
+        primary: input.primary ?? defaults?.primary ?? { label: 'Status', value: status },
+        secondary: input.secondary ?? defaults?.secondary,
+      },
+      objectiveProgress: input.objectiveProgress,
+      schemaVersion: SCHEMA_VERSION,
+    };
+    return c.json(response);
+  });
+
+  return app;
+}
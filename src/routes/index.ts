@@ -1,2 +1,8 @@
 export * from './metrics.js';
 export * from './auth.js';
+export * from './rateLimit.js';
+export * from './prometheus.js';
+export * from './hub.js';
+export * from './revocation.js';
+export * from './apiKeys.js';
+export * from './devHub.js';
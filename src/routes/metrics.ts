@@ -10,7 +10,12 @@ import {
   getAggregatedStats,
   getSuspiciousRequests,
   getRequestsByIP,
+  getTimeSeries,
 } from '../middleware/metrics.js';
+import { getActiveBans, liftBan } from '../middleware/penaltyBox.js';
+import { authorize, anyOf, hasRole, isUser } from '../middleware/authorize.js';
+import type { AuthorizationUser } from '../middleware/authorize.js';
+import type { CsrfProtection } from '../middleware/csrf.js';
 
 export interface MetricsRoutesOptions {
   /** Metrics store instance */
@@ -18,9 +23,18 @@ export interface MetricsRoutesOptions {
   /** Middleware to require authentication */
   requireAuth: (c: Context, next: Next) => Promise<Response | void>;
   /** Function to get user from context */
-  getUser: (c: Context) => { id: string } | null | undefined;
-  /** Owner user ID (only owner can access metrics) */
+  getUser: (c: Context) => AuthorizationUser | null | undefined;
+  /** Owner user ID (owners and admins can access metrics) */
   ownerUserId?: string;
+  /** Additional owner user IDs */
+  ownerUserIds?: string[];
+  /** Roles that can access metrics (e.g. ['admin']) */
+  roles?: string[];
+  /**
+   * CSRF protection (see createCsrfProtection)
+   * Checks DELETE /bans/:ip, which is otherwise only guarded by the session cookie
+   */
+  csrf?: CsrfProtection;
 }
 
 /**
@@ -34,28 +48,30 @@ export interface MetricsRoutesOptions {
  *   requireAuth,
  *   getUser,
  *   ownerUserId: process.env.OWNER_USER_ID,
+ *   roles: ['admin'],
+ *   csrf,
  * });
  *
  * app.route('/api/metrics', metricsRoutes);
  */
 export function createMetricsRoutes(options: MetricsRoutesOptions) {
-  const { store, requireAuth, getUser, ownerUserId } = options;
+  const { store, requireAuth, getUser, ownerUserId, ownerUserIds = [], roles = [], csrf } = options;
 
   const app = new Hono();
 
   // All metrics endpoints require authentication
   app.use('/*', requireAuth);
 
-  // Check if user is owner (only owner can see metrics)
-  const requireOwner = async (c: Context, next: Next) => {
-    const user = getUser(c);
-    if (!ownerUserId || user?.id !== ownerUserId) {
-      return c.json({ error: 'Forbidden - owner access required' }, 403);
-    }
-    await next();
-  };
+  // State-changing requests need a trusted origin and the session's CSRF token
+  if (csrf) {
+    app.use('/*', csrf.csrfProtection);
+  }
 
-  app.use('/*', requireOwner);
+  // Only owners and admins can see metrics
+  app.use('/*', authorize(anyOf(isUser(ownerUserId, ...ownerUserIds), hasRole(...roles)), {
+    getUser,
+    message: 'Forbidden - owner access required',
+  }));
 
   // Get aggregated stats summary
   app.get('/summary', (c) => {
@@ -112,5 +128,31 @@ export function createMetricsRoutes(options: MetricsRoutesOptions) {
     return c.json(breakdown);
   });
 
+  // Get rolling request/error/suspicious counts and latency percentiles
+  app.get('/timeseries', (c) => {
+    const resolution = c.req.query('resolution') === 'hour' ? 'hour' : 'minute';
+    const stats = getAggregatedStats(store);
+    return c.json({
+      resolution,
+      buckets: getTimeSeries(store, resolution),
+      latency: stats.latency,
+      latencyByPath: stats.latencyByPath,
+    });
+  });
+
+  // List active penalty box bans
+  app.get('/bans', (c) => {
+    return c.json(getActiveBans(store));
+  });
+
+  // Lift a penalty box ban
+  app.delete('/bans/:ip', (c) => {
+    const ip = c.req.param('ip');
+    if (!liftBan(store, ip)) {
+      return c.json({ error: 'Not found' }, 404);
+    }
+    return c.json({ success: true });
+  });
+
   return app;
 }
@@ -0,0 +1,92 @@
+/**
+ * Prometheus Routes Factory
+ * Exposes request metrics in Prometheus text format for scraping
+ */
+import { Hono } from 'hono';
+import type { Context, Next } from 'hono';
+import type { MetricsStore } from '../middleware/metrics.js';
+import { getPrometheusMetrics } from '../middleware/metrics.js';
+import { getClientIP, isInternalRequest } from '../utils/ip.js';
+import { authorize, anyOf, hasRole, isUser } from '../middleware/authorize.js';
+import type { AuthorizationUser } from '../middleware/authorize.js';
+
+export interface PrometheusRoutesOptions {
+  /** Metrics store instance */
+  store: MetricsStore;
+  /**
+   * Who may scrape (default: 'internal')
+   * - internal: only requests from the internal network (isInternalRequest)
+   * - owner: same authentication + owner check as createMetricsRoutes
+   */
+  access?: 'internal' | 'owner';
+  /**
+   * Custom internal check (default: isInternalRequest(getClientIP(c)))
+   * Useful when scrapers connect directly without proxy headers
+   */
+  isInternal?: (c: Context) => boolean;
+  /** Middleware to require authentication (required for 'owner' access) */
+  requireAuth?: (c: Context, next: Next) => Promise<Response | void>;
+  /** Function to get user from context (required for 'owner' access) */
+  getUser?: (c: Context) => AuthorizationUser | null | undefined;
+  /** Owner user ID (owners and admins can scrape with 'owner' access) */
+  ownerUserId?: string;
+  /** Additional owner user IDs */
+  ownerUserIds?: string[];
+  /** Roles that can scrape with 'owner' access (e.g. ['admin']) */
+  roles?: string[];
+}
+
+/**
+ * Create Prometheus exposition routes for a service
+ *
+ * @example
+ * import { createPrometheusRoutes } from '@codex/shared';
+ *
+ * app.route('/metrics', createPrometheusRoutes({ store: metricsStore }));
+ *
+ * This creates:
+ * - GET /metrics - Request counters, latency histogram, bot/suspicious/internal counters
+ */
+export function createPrometheusRoutes(options: PrometheusRoutesOptions) {
+  const {
+    store,
+    access = 'internal',
+    isInternal = (c: Context) => isInternalRequest(getClientIP(c)),
+    requireAuth,
+    getUser,
+    ownerUserId,
+    ownerUserIds = [],
+    roles = [],
+  } = options;
+
+  const app = new Hono();
+
+  if (access === 'owner') {
+    // Validate config at creation time (fail fast)
+    if (!requireAuth || !getUser) {
+      throw new Error('PrometheusRoutes: requireAuth and getUser are required for owner access');
+    }
+
+    app.use('/*', requireAuth);
+
+    // Same owner/admin check as createMetricsRoutes
+    app.use('/*', authorize(anyOf(isUser(ownerUserId, ...ownerUserIds), hasRole(...roles)), {
+      getUser,
+      message: 'Forbidden - owner access required',
+    }));
+  } else {
+    app.use('/*', async (c: Context, next: Next) => {
+      if (!isInternal(c)) {
+        return c.json({ error: 'Forbidden - internal access only' }, 403);
+      }
+      await next();
+    });
+  }
+
+  app.get('/', (c) => {
+    c.header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    return c.body(getPrometheusMetrics(store));
+  });
+
+  return app;
+}
@@ -0,0 +1,52 @@
+/**
+ * Rate Limit Routes Factory
+ * Lets clients inspect their current quota (e.g. "N imports left")
+ */
+import { Hono } from 'hono';
+import type { RateLimitOptions } from '../middleware/rateLimit.js';
+import type { RateLimitStore } from '../middleware/rateLimitStore.js';
+import { getRateLimitQuota } from '../middleware/rateLimit.js';
+
+export interface RateLimitRoutesOptions {
+  /** Rate limit store instance (same one passed to rateLimiter) */
+  store: RateLimitStore;
+  /** Rate limit options (same ones passed to rateLimiter) */
+  options: RateLimitOptions;
+}
+
+/**
+ * Create rate limit routes for a service
+ *
+ * Mount after optionalAuth so per-user keys and tiers resolve the same way
+ * they do in rateLimiter.
+ *
+ * @example
+ * import { createRateLimitRoutes } from '@codex/shared';
+ *
+ * const rateLimitRoutes = createRateLimitRoutes({
+ *   store: rateLimitStore,
+ *   options: rateLimitOptions,
+ * });
+ *
+ * app.route('/api/rate-limit', rateLimitRoutes);
+ *
+ * This creates:
+ * - GET /api/rate-limit/quota - Caller's quota for each endpoint rule
+ * - GET /api/rate-limit/quota?path=/api/items - Also the default limit for that path
+ */
+export function createRateLimitRoutes(config: RateLimitRoutesOptions) {
+  const { store, options } = config;
+
+  const app = new Hono();
+
+  // Get caller's current quota (does not consume any of it)
+  app.get('/quota', async (c) => {
+    const path = c.req.query('path');
+    if (path !== undefined && !/^\/[^\s]*$/.test(path)) {
+      return c.json({ error: 'Invalid path' }, 400);
+    }
+    return c.json(await getRateLimitQuota(c, store, options, path));
+  });
+
+  return app;
+}
@@ -0,0 +1,132 @@
+/**
+ * Revocation Routes Factory
+ * Owner-only endpoints to revoke tokens by jti or every session of a user
+ *
+ * SECURITY NOTES:
+ * - Same authentication + owner check as createMetricsRoutes
+ * - With csrf, revocations also need a trusted origin and the session's CSRF token
+ * - Revocations are only as shared as the store (use a Redis-protocol store
+ *   so every service and the Hub see them)
+ */
+import { Hono } from 'hono';
+import type { Context, Next } from 'hono';
+import type { RevocationStore } from '../middleware/revocationStore.js';
+import { authorize, anyOf, hasRole, isUser } from '../middleware/authorize.js';
+import type { AuthorizationUser } from '../middleware/authorize.js';
+import type { CsrfProtection } from '../middleware/csrf.js';
+
+export interface RevocationRoutesOptions {
+  /** Revocation store shared with the auth middleware */
+  store: RevocationStore;
+  /** Middleware to require authentication */
+  requireAuth: (c: Context, next: Next) => Promise<Response | void>;
+  /** Function to get user from context */
+  getUser: (c: Context) => AuthorizationUser | null | undefined;
+  /** Owner user ID (owners and admins can revoke) */
+  ownerUserId?: string;
+  /** Additional owner user IDs */
+  ownerUserIds?: string[];
+  /** Roles that can revoke (e.g. ['admin']) */
+  roles?: string[];
+  /**
+   * How long revocations are kept when the token's expiry isn't given, in seconds
+   * Must cover the longest token lifetime (default: 30 days)
+   */
+  maxTokenLifetime?: number;
+  /**
+   * CSRF protection (see createCsrfProtection)
+   * Checks POST /jti and POST /user, which are otherwise only guarded by the session cookie
+   */
+  csrf?: CsrfProtection;
+}
+
+/**
+ * Create revocation routes
+ *
+ * @example
+ * import { createRevocationRoutes } from '@codex/shared';
+ *
+ * app.route('/api/auth/revocations', createRevocationRoutes({
+ *   store: revocationStore,
+ *   requireAuth,
+ *   getUser,
+ *   ownerUserId: process.env.OWNER_USER_ID,
+ *   csrf,
+ * }));
+ *
+ * This creates:
+ * - POST /jti - Revoke one token: { jti, expiresAt? }
+ * - POST /user - Revoke a user's sessions issued before now (or `before`): { userId, before? }
+ */
+export function createRevocationRoutes(options: RevocationRoutesOptions) {
+  const {
+    store,
+    requireAuth,
+    getUser,
+    ownerUserId,
+    ownerUserIds = [],
+    roles = [],
+    maxTokenLifetime = 30 * 24 * 60 * 60,
+    csrf,
+  } = options;
+
+  const app = new Hono();
+
+  // All revocation endpoints require authentication
+  app.use('/*', requireAuth);
+
+  // State-changing requests need a trusted origin and the session's CSRF token
+  if (csrf) {
+    app.use('/*', csrf.csrfProtection);
+  }
+
+  // Only owners and admins can revoke
+  app.use('/*', authorize(anyOf(isUser(ownerUserId, ...ownerUserIds), hasRole(...roles)), {
+    getUser,
+    message: 'Forbidden - owner access required',
+  }));
+
+  const readBody = async (c: Context): Promise<Record<string, unknown> | null> => {
+    try {
+      const body = await c.req.json();
+      return typeof body === 'object' && body !== null ? body : null;
+    } catch {
+      return null;
+    }
+  };
+
+  // Parse an optional ISO timestamp (undefined if absent, null if invalid)
+  const parseTime = (value: unknown): number | undefined | null => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string') return null;
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  };
+
+  // Revoke a single token
+  app.post('/jti', async (c) => {
+    const body = await readBody(c);
+    const expiresAt = parseTime(body?.expiresAt);
+    if (typeof body?.jti !== 'string' || !body.jti || expiresAt === null) {
+      return c.json({ error: 'Expected { jti, expiresAt? }' }, 400);
+    }
+
+    await store.revoke(body.jti, expiresAt ?? Date.now() + maxTokenLifetime * 1000);
+    return c.json({ success: true });
+  });
+
+  // Revoke every session of a user
+  app.post('/user', async (c) => {
+    const body = await readBody(c);
+    const before = parseTime(body?.before);
+    if (typeof body?.userId !== 'string' || !body.userId || before === null) {
+      return c.json({ error: 'Expected { userId, before? }' }, 400);
+    }
+
+    const now = Date.now();
+    await store.revokeBefore(body.userId, before ?? now, now + maxTokenLifetime * 1000);
+    return c.json({ success: true });
+  });
+
+  return app;
+}
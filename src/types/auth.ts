@@ -6,4 +6,10 @@ export interface AuthUser {
   email: string;
   name: string;
   picture?: string;
+  /** Roles granted by the Hub, e.g. ['admin'] (see requireRole) */
+  roles?: string[];
+  /** Permission scopes, e.g. ['items:write'] (see requireScope) */
+  scopes?: string[];
+  /** Wire schema version (see SCHEMA_VERSION), absent in tokens from older Hubs */
+  schemaVersion?: string;
 }
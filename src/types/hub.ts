@@ -1,10 +1,26 @@
+/**
+ * Result of one dependency check (DB ping, disk, upstream...)
+ * Error details are never included, only whether it failed or timed out
+ */
+export interface DependencyCheckResult {
+  ok: boolean;
+  latencyMs: number;
+  error?: 'failed' | 'timeout';
+  /** Whether a failure makes the service unhealthy */
+  critical: boolean;
+}
+
 /**
  * Health check response format (required for Hub monitoring)
+ * status is 'error' (HTTP 503) when a critical dependency check fails
  */
 export interface HealthCheckResponse {
-  status: 'ok';
+  status: 'ok' | 'error';
   service: string;
   timestamp: string;
+  checks?: Record<string, DependencyCheckResult>;
+  /** Wire schema version (see SCHEMA_VERSION) */
+  schemaVersion?: string;
 }
 
 /**
@@ -19,4 +35,6 @@ export interface HubSummaryResponse {
     secondary?: Array<{ label: string; value: string | number }>;
   };
   objectiveProgress?: number;
+  /** Wire schema version (see SCHEMA_VERSION) */
+  schemaVersion?: string;
 }
@@ -1,3 +1,8 @@
+/**
+ * Severity of a matched detection rule
+ */
+export type DetectionSeverity = 'low' | 'medium' | 'high' | 'critical';
+
 /**
  * Individual request metric
  */
@@ -6,6 +11,8 @@ export interface RequestMetric {
   service: string;
   method: string;
   path: string;
+  /** Matched route pattern (e.g. '/api/users/:id'), or 'other' for unmatched requests */
+  route?: string;
   status: number;
   durationMs: number;
   ip: string;
@@ -14,7 +21,33 @@ export interface RequestMetric {
   isBot: boolean;
   isInternal: boolean;
   isSuspicious: boolean;
-  suspiciousReason?: string;
+  /** Ids of the detection rules that flagged the request as suspicious */
+  matchedRules?: string[];
+  /** Highest severity among matchedRules */
+  severity?: DetectionSeverity;
+  /** Wire schema version (see SCHEMA_VERSION) */
+  schemaVersion?: string;
+}
+
+/**
+ * Latency percentiles in milliseconds
+ */
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+/**
+ * Request counts for one time bucket (external requests only)
+ */
+export interface TimeSeriesBucket {
+  /** Bucket start (ISO timestamp) */
+  start: string;
+  requests: number;
+  /** 5xx responses */
+  errors: number;
+  suspicious: number;
 }
 
 /**
@@ -30,5 +63,22 @@ export interface AggregatedStats {
   botRequests: number;
   suspiciousRequests: number;
   avgDurationMs: number;
+  /** External request latency percentiles (filled in by getAggregatedStats) */
+  latency?: LatencyPercentiles;
+  /** Latency percentiles per path (filled in by getAggregatedStats) */
+  latencyByPath?: Record<string, LatencyPercentiles>;
   lastUpdated: string;
 }
+
+/**
+ * Temporary ban of an IP by the penalty box
+ */
+export interface IpBan {
+  ip: string;
+  bannedAt: string;
+  expiresAt: string;
+  /** Number of times this IP has been banned (drives escalating durations) */
+  offenses: number;
+  /** Why the ban was applied, e.g. 'suspicious:5' or 'rate_limited:5' */
+  reason: string;
+}
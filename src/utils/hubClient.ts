@@ -0,0 +1,289 @@
+/**
+ * Hub Aggregator Client
+ * Polls services for /health and /hub/summary and merges them into a fleet view
+ *
+ * Services are expected to expose the endpoints created by createHubRoutes.
+ *
+ * SECURITY NOTES:
+ * - Responses are validated at runtime, anything else marks the service failed
+ * - Failure details are reduced to an error code, raw errors are never stored
+ */
+import type { HealthCheckResponse, HubSummaryResponse } from '../types/hub.js';
+import { validateHealthCheckResponse, validateHubSummaryResponse } from './schema.js';
+import type { ValidationResult } from './schema.js';
+
+type HubStatus = HubSummaryResponse['status'];
+
+/**
+ * Fetch implementation used for polling
+ * Defaults to global fetch; pass `(url, init) => app.request(url, init)` to poll a local Hono app
+ */
+export type HubFetch = (url: string, init?: RequestInit) => Response | Promise<Response>;
+
+export interface HubServiceConfig {
+  /** Name shown in the fleet view (should match the service's own name) */
+  name: string;
+  /** Base URL the Hub endpoints are mounted under, e.g. http://my-service:3000 */
+  baseUrl: string;
+}
+
+export interface HubAggregatorOptions {
+  services: HubServiceConfig[];
+  /** Fetch implementation (default: global fetch) */
+  fetch?: HubFetch;
+  /** Poll interval in ms (default: 30 seconds) */
+  intervalMs?: number;
+  /** Per-request timeout in ms (default: 5000) */
+  timeoutMs?: number;
+  /** Longest delay between polls of a failing service, in ms (default: 10 minutes) */
+  maxBackoffMs?: number;
+  /** Seconds without a successful poll before a failing service is 'offline' instead of 'stale' (default: 5 minutes) */
+  offlineAfter?: number;
+}
+
+/**
+ * Why the last poll of a service failed
+ * 'incompatible' means the service speaks a different schemaVersion major
+ */
+export type HubPollError = 'timeout' | 'network' | 'http' | 'invalid' | 'incompatible';
+
+export interface HubServiceState {
+  name: string;
+  baseUrl: string;
+  status: HubStatus;
+  /** Last valid health response */
+  health?: HealthCheckResponse;
+  /** Last valid summary response */
+  summary?: HubSummaryResponse;
+  /** Last successful poll */
+  lastSeen?: string;
+  /** Last poll attempt */
+  lastChecked?: string;
+  /** Next time the service is due for a poll */
+  nextPollAt: string;
+  consecutiveFailures: number;
+  error?: HubPollError;
+}
+
+export interface HubFleetView {
+  generatedAt: string;
+  /** Number of services per status */
+  counts: Record<HubStatus, number>;
+  services: HubServiceState[];
+}
+
+export interface HubAggregator {
+  /** Poll every service that is due (or all with force) and return the fleet view */
+  poll(force?: boolean): Promise<HubFleetView>;
+  /** Current fleet view without polling */
+  getFleet(): HubFleetView;
+  /** Start polling in the background */
+  start(): void;
+  /** Stop background polling */
+  stop(): void;
+}
+
+class HubPollFailure extends Error {
+  constructor(public code: HubPollError) {
+    super(code);
+  }
+}
+
+/**
+ * Fetch a JSON document with a timeout and validate its shape
+ */
+async function fetchJson<T>(
+  fetchFn: HubFetch,
+  url: string,
+  timeoutMs: number,
+  validate: (value: unknown) => ValidationResult<T>,
+  acceptStatus: (status: number) => boolean
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  // Not every fetch honours the signal (app.request doesn't), so race it too
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new HubPollFailure('timeout'));
+    }, timeoutMs);
+  });
+
+  const request = (async () => {
+    let res: Response;
+    try {
+      res = await fetchFn(url, { signal: controller.signal, headers: { Accept: 'application/json' } });
+    } catch {
+      throw new HubPollFailure('network');
+    }
+    if (!acceptStatus(res.status)) {
+      throw new HubPollFailure('http');
+    }
+
+    let body: unknown;
+    try {
+      body = await res.json();
+    } catch {
+      throw new HubPollFailure('invalid');
+    }
+    const result = validate(body);
+    if (!result.ok) {
+      const incompatible = result.errors.some(error => error.path === 'schemaVersion');
+      throw new HubPollFailure(incompatible ? 'incompatible' : 'invalid');
+    }
+    return result.value;
+  })();
+
+  try {
+    return await Promise.race([request, timeout]);
+  } finally {
+    clearTimeout(timer);
+    // Keep a late failure from becoming an unhandled rejection
+    request.catch(() => undefined);
+  }
+}
+
+/**
+ * Create a Hub aggregator that polls services and merges their summaries
+ *
+ * A service that stops answering keeps its last summary and is marked 'stale',
+ * then 'offline' after offlineAfter. Failing services are retried with
+ * exponential backoff.
+ *
+ * @example
+ * const hub = createHubAggregator({
+ *   services: [
+ *     { name: 'search', baseUrl: 'http://search:3000' },
+ *     { name: 'tracker', baseUrl: 'http://tracker:3000' },
+ *   ],
+ * });
+ *
+ * hub.start();
+ * app.get('/api/fleet', (c) => c.json(hub.getFleet()));
+ *
+ * @example
+ * // Poll a local Hono app (tests, single-process setups)
+ * const hub = createHubAggregator({
+ *   services: [{ name: 'my-service', baseUrl: 'http://my-service' }],
+ *   fetch: (url, init) => serviceApp.request(url, init),
+ * });
+ * const fleet = await hub.poll();
+ */
+export function createHubAggregator(options: HubAggregatorOptions): HubAggregator {
+  const {
+    services,
+    fetch: fetchFn = (url, init) => fetch(url, init),
+    intervalMs = 30 * 1000,
+    timeoutMs = 5000,
+    maxBackoffMs = 10 * 60 * 1000,
+    offlineAfter = 5 * 60,
+  } = options;
+
+  const names = new Set<string>();
+  for (const service of services) {
+    if (!service.name || !service.baseUrl) {
+      throw new Error('HubAggregator: every service needs a name and baseUrl');
+    }
+    if (names.has(service.name)) {
+      throw new Error(`HubAggregator: duplicate service name '${service.name}'`);
+    }
+    names.add(service.name);
+  }
+
+  const states = services.map((service): HubServiceState => ({
+    name: service.name,
+    baseUrl: service.baseUrl.replace(/\/+$/, ''),
+    status: 'offline',
+    nextPollAt: new Date(0).toISOString(),
+    consecutiveFailures: 0,
+  }));
+  const inFlight = new Map<string, Promise<void>>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const pollService = async (state: HubServiceState) => {
+    const now = Date.now();
+    state.lastChecked = new Date(now).toISOString();
+
+    try {
+      const [health, summary] = await Promise.all([
+        // Unhealthy services answer /health with 503 and a valid body
+        fetchJson(fetchFn, `${state.baseUrl}/health`, timeoutMs, validateHealthCheckResponse,
+          status => status === 200 || status === 503),
+        fetchJson(fetchFn, `${state.baseUrl}/hub/summary`, timeoutMs, validateHubSummaryResponse,
+          status => status === 200),
+      ]);
+
+      state.health = health;
+      state.summary = summary;
+      state.status = health.status === 'error' ? 'error' : summary.status;
+      state.lastSeen = state.lastChecked;
+      state.consecutiveFailures = 0;
+      state.error = undefined;
+      state.nextPollAt = new Date(now + intervalMs).toISOString();
+    } catch (err) {
+      state.consecutiveFailures++;
+      state.error = err instanceof HubPollFailure ? err.code : 'network';
+
+      // Keep the last known summary while the outage is short
+      const lastSeen = state.lastSeen ? Date.parse(state.lastSeen) : 0;
+      state.status = lastSeen && now - lastSeen <= offlineAfter * 1000 ? 'stale' : 'offline';
+
+      const backoff = Math.min(intervalMs * 2 ** (state.consecutiveFailures - 1), maxBackoffMs);
+      state.nextPollAt = new Date(now + backoff).toISOString();
+    }
+  };
+
+  const getFleet = (): HubFleetView => {
+    const counts: Record<HubStatus, number> = { healthy: 0, stale: 0, error: 0, offline: 0 };
+    for (const state of states) {
+      counts[state.status]++;
+    }
+    return {
+      generatedAt: new Date().toISOString(),
+      counts,
+      services: states.map(state => ({ ...state })),
+    };
+  };
+
+  const poll = async (force = false) => {
+    const now = Date.now();
+    await Promise.all(states.map(state => {
+      let pending = inFlight.get(state.name);
+      if (!pending && (force || Date.parse(state.nextPollAt) <= now)) {
+        pending = pollService(state).finally(() => inFlight.delete(state.name));
+        inFlight.set(state.name, pending);
+      }
+      return pending;
+    }));
+    return getFleet();
+  };
+
+  const tick = async () => {
+    await poll().catch(err => console.error('[HUB] Poll failed:', err));
+    if (timer) schedule();
+  };
+
+  const schedule = () => {
+    // Check often enough that backed-off services are retried close to their due time
+    timer = setTimeout(() => { void tick(); }, Math.min(intervalMs, 5000));
+    // Prevent timer from keeping process alive
+    timer.unref?.();
+  };
+
+  return {
+    poll,
+    getFleet,
+
+    start() {
+      if (timer) return;
+      schedule();
+      void poll();
+    },
+
+    stop() {
+      clearTimeout(timer);
+      timer = undefined;
+    },
+  };
+}
@@ -1 +1,5 @@
 export * from './ip.js';
+export * from './quantile.js';
+export * from './hubClient.js';
+export * from './schema.js';
+export * from './jwks.js';
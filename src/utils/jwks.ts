@@ -0,0 +1,422 @@
+/**
+ * JWT Key Sets
+ * Asymmetric verification keys (RS256, ES256, EdDSA) selected by `kid`
+ *
+ * Supports:
+ * - Static keys (PEM, JWK or KeyObject)
+ * - A JWKS document from a local file or an HTTP endpoint (cached)
+ * - Signing with the same algorithms (service tokens, see createServiceAuth)
+ *
+ * SECURITY NOTES:
+ * - Each key is pinned to one algorithm; the token header must match it exactly
+ * - HS256 tokens are only ever checked against the shared secret, never a public key
+ * - Only public keys are used, private material in a JWK is ignored
+ * - Verification errors are generic, callers must not echo them to clients
+ */
+import {
+  KeyObject,
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  timingSafeEqual,
+  verify,
+} from 'node:crypto';
+import type { JsonWebKey } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+/** Asymmetric algorithms accepted for key set verification */
+export type JwtKeyAlgorithm = 'RS256' | 'ES256' | 'EdDSA';
+
+export interface JwtKeyInput {
+  /** Key id matched against the token's `kid` header */
+  kid: string;
+  /** Algorithm pinned to this key */
+  alg: JwtKeyAlgorithm;
+  /** Public key as PEM, JWK or KeyObject */
+  key: string | JsonWebKey | KeyObject;
+}
+
+/**
+ * A resolved verification key
+ */
+export interface JwtKey {
+  kid: string;
+  alg: JwtKeyAlgorithm;
+  key: KeyObject;
+}
+
+export interface JwtKeySetOptions {
+  /** Static keys (e.g. the current and next key during rotation) */
+  keys?: JwtKeyInput[];
+  /** Path to a JWKS document */
+  jwksFile?: string;
+  /** URL of a JWKS document, e.g. `${env.hubInternalUrl}/.well-known/jwks.json` */
+  jwksUrl?: string;
+  /** How long a loaded JWKS document is reused, in seconds (default: 600) */
+  cacheMaxAge?: number;
+  /** Minimum seconds between reloads triggered by an unknown kid (default: 30) */
+  minRefreshInterval?: number;
+  /** Timeout for fetching jwksUrl, in ms (default: 5000) */
+  timeoutMs?: number;
+  /** Fetch implementation for jwksUrl (default: global fetch) */
+  fetch?: (url: string, init?: RequestInit) => Response | Promise<Response>;
+}
+
+/**
+ * Set of verification keys, selected by kid
+ */
+export interface JwtKeySet {
+  /**
+   * Get the key for a token's kid
+   * Without a kid, the key is only returned if the set holds exactly one key
+   */
+  getKey(kid: string | undefined): Promise<JwtKey | null>;
+  /** Reload the JWKS document now */
+  refresh(): Promise<void>;
+}
+
+/**
+ * Standard claim checks applied after the signature is verified
+ */
+export interface JwtClaimOptions {
+  /** Accepted `iss` value(s) */
+  issuer?: string | string[];
+  /** Accepted `aud` value(s); the token must name at least one */
+  audience?: string | string[];
+  /** Maximum seconds since `iat` (tokens without iat are rejected) */
+  maxAge?: number;
+  /** Seconds of clock skew allowed for exp, nbf and maxAge (default: 0) */
+  clockTolerance?: number;
+  /** Claims that must be present in the payload */
+  requiredClaims?: string[];
+}
+
+/**
+ * Options for verifyJwt (at least one of secret or keySet)
+ */
+export interface JwtVerifyOptions extends JwtClaimOptions {
+  /** Shared secret for HS256 tokens */
+  secret?: string;
+  /** Key set for RS256/ES256/EdDSA tokens */
+  keySet?: JwtKeySet;
+}
+
+/**
+ * Check that a key's type matches the algorithm it's pinned to
+ */
+function keyMatchesAlgorithm(key: KeyObject, alg: JwtKeyAlgorithm): boolean {
+  if (alg === 'RS256') return key.asymmetricKeyType === 'rsa';
+  if (alg === 'ES256') {
+    return key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1';
+  }
+  return key.asymmetricKeyType === 'ed25519';
+}
+
+/**
+ * Infer the algorithm of a JWK from its key type and curve
+ */
+function inferJwkAlgorithm(jwk: JsonWebKey): JwtKeyAlgorithm | null {
+  if (jwk.kty === 'RSA') return 'RS256';
+  if (jwk.kty === 'EC' && jwk.crv === 'P-256') return 'ES256';
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') return 'EdDSA';
+  return null;
+}
+
+/**
+ * Convert a key input to a public KeyObject pinned to its algorithm
+ */
+function toJwtKey(input: JwtKeyInput): JwtKey {
+  const { kid, alg, key } = input;
+  let keyObject: KeyObject;
+  if (typeof key === 'string') {
+    keyObject = createPublicKey(key);
+  } else if (key instanceof KeyObject) {
+    keyObject = key.type === 'public' ? key : createPublicKey(key);
+  } else {
+    keyObject = createPublicKey({ key, format: 'jwk' });
+  }
+
+  if (!keyMatchesAlgorithm(keyObject, alg)) {
+    throw new Error(`JwtKeySet: key '${kid}' does not match algorithm ${alg}`);
+  }
+  return { kid, alg, key: keyObject };
+}
+
+/**
+ * Parse a JWKS document, skipping keys that can't be used for verification
+ */
+function parseJwks(document: unknown): JwtKey[] {
+  const keys = (document as { keys?: unknown })?.keys;
+  if (!Array.isArray(keys)) {
+    throw new Error('JwtKeySet: JWKS document has no keys array');
+  }
+
+  const result: JwtKey[] = [];
+  for (const jwk of keys as Array<JsonWebKey & { kid?: string; use?: string }>) {
+    if (!jwk || typeof jwk.kid !== 'string') continue;
+    if (jwk.use !== undefined && jwk.use !== 'sig') continue;
+
+    const inferred = inferJwkAlgorithm(jwk);
+    // A declared alg must agree with the key type
+    if (!inferred || (jwk.alg !== undefined && jwk.alg !== inferred)) continue;
+
+    try {
+      result.push(toJwtKey({ kid: jwk.kid, alg: inferred, key: jwk }));
+    } catch {
+      // Malformed key material, skip it
+    }
+  }
+  return result;
+}
+
+/**
+ * Create a key set for asymmetric JWT verification
+ *
+ * Several keys can be active at once: publish the new key, start signing with
+ * it, and remove the old key once its tokens have expired. JWKS documents are
+ * reloaded after cacheMaxAge, and early when a token names an unknown kid.
+ *
+ * @example
+ * const jwtKeys = createJwtKeySet({ jwksUrl: env.hubJwksUrl });
+ *
+ * const { requireAuth } = createAuthMiddleware({
+ *   jwtKeys,
+ *   hubPublicUrl: env.hubPublicUrl,
+ *   frontendUrl: env.frontendUrl,
+ * });
+ *
+ * @example
+ * // Static keys during a rotation
+ * const jwtKeys = createJwtKeySet({
+ *   keys: [
+ *     { kid: '2024-06', alg: 'ES256', key: env.jwtPublicKeyCurrent },
+ *     { kid: '2024-12', alg: 'ES256', key: env.jwtPublicKeyNext },
+ *   ],
+ * });
+ */
+export function createJwtKeySet(options: JwtKeySetOptions): JwtKeySet {
+  const {
+    keys = [],
+    jwksFile,
+    jwksUrl,
+    cacheMaxAge = 600,
+    minRefreshInterval = 30,
+    timeoutMs = 5000,
+    fetch: fetchFn = (url, init) => fetch(url, init),
+  } = options;
+
+  // Validate config at creation time (fail fast)
+  if (keys.length === 0 && !jwksFile && !jwksUrl) {
+    throw new Error('JwtKeySet: keys, jwksFile or jwksUrl is required');
+  }
+  if (jwksFile && jwksUrl) {
+    throw new Error('JwtKeySet: use either jwksFile or jwksUrl, not both');
+  }
+
+  const staticKeys = keys.map(toJwtKey);
+  let loadedKeys: JwtKey[] = [];
+  let loadedAt = 0;
+  let loading: Promise<void> | null = null;
+
+  const load = async () => {
+    let document: unknown;
+    if (jwksFile) {
+      document = JSON.parse(await readFile(jwksFile, 'utf8'));
+    } else {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const res = await fetchFn(jwksUrl!, {
+          signal: controller.signal,
+          headers: { Accept: 'application/json' },
+        });
+        if (!res.ok) throw new Error(`JwtKeySet: JWKS request failed with ${res.status}`);
+        document = await res.json();
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+    loadedKeys = parseJwks(document);
+    loadedAt = Date.now();
+  };
+
+  const refresh = () => {
+    if (!jwksFile && !jwksUrl) return Promise.resolve();
+    // Concurrent requests share one reload
+    loading ??= load()
+      .catch(err => {
+        // Keep serving the last good keys, retry after minRefreshInterval
+        loadedAt = Date.now() - Math.max(cacheMaxAge - minRefreshInterval, 0) * 1000;
+        console.error('[AUTH] Failed to load JWKS:', err instanceof Error ? err.message : err);
+      })
+      .finally(() => { loading = null; });
+    return loading;
+  };
+
+  const allKeys = () => [...staticKeys, ...loadedKeys];
+
+  return {
+    async getKey(kid) {
+      const age = Date.now() - loadedAt;
+      if (age > cacheMaxAge * 1000) {
+        await refresh();
+      }
+
+      const find = () => {
+        const candidates = allKeys();
+        if (kid === undefined) return candidates.length === 1 ? candidates[0] : null;
+        return candidates.find(key => key.kid === kid) ?? null;
+      };
+
+      let key = find();
+      // Unknown kid may be a freshly rotated key
+      if (!key && kid !== undefined && Date.now() - loadedAt > minRefreshInterval * 1000) {
+        await refresh();
+        key = find();
+      }
+      return key;
+    },
+
+    refresh,
+  };
+}
+
+/**
+ * Decode a base64url segment
+ * Buffer.from skips characters outside the alphabet, which would let the same
+ * signature be spelled many ways, so those are rejected first
+ */
+function base64UrlDecode(value: string): Buffer {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) throw new Error('Invalid token');
+  return Buffer.from(value, 'base64url');
+}
+
+/**
+ * Key used to sign tokens
+ * HS256 uses a shared secret; asymmetric algorithms use a private key whose
+ * public half is published (with the same kid) to verifiers
+ */
+export type JwtSigningKey =
+  | { alg: 'HS256'; secret: string; kid?: string }
+  | { alg: JwtKeyAlgorithm; privateKey: string | KeyObject; kid: string };
+
+/**
+ * Sign a JWT with the algorithms verifyJwt accepts
+ */
+export function signJwt(payload: Record<string, unknown>, signingKey: JwtSigningKey): string {
+  const header = { alg: signingKey.alg, typ: 'JWT', ...(signingKey.kid && { kid: signingKey.kid }) };
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const data = `${encode(header)}.${encode(payload)}`;
+
+  let signature: Buffer;
+  if (signingKey.alg === 'HS256') {
+    signature = createHmac('sha256', signingKey.secret).update(data).digest();
+  } else {
+    const key = typeof signingKey.privateKey === 'string'
+      ? createPrivateKey(signingKey.privateKey)
+      : signingKey.privateKey;
+    if (signingKey.alg === 'RS256') {
+      signature = sign('sha256', Buffer.from(data), key);
+    } else if (signingKey.alg === 'ES256') {
+      signature = sign('sha256', Buffer.from(data), { key, dsaEncoding: 'ieee-p1363' });
+    } else {
+      signature = sign(null, Buffer.from(data), key);
+    }
+  }
+
+  return `${data}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Check standard claims against JwtClaimOptions
+ */
+function checkClaims(claims: Record<string, unknown>, options: JwtClaimOptions) {
+  const { issuer, audience, maxAge, clockTolerance = 0, requiredClaims = [] } = options;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.exp !== undefined && (typeof claims.exp !== 'number' || now >= claims.exp + clockTolerance)) {
+    throw new Error('Token expired');
+  }
+  if (claims.nbf !== undefined && (typeof claims.nbf !== 'number' || now < claims.nbf - clockTolerance)) {
+    throw new Error('Token not active');
+  }
+  if (maxAge !== undefined && (typeof claims.iat !== 'number' || now >= claims.iat + maxAge + clockTolerance)) {
+    throw new Error('Token too old');
+  }
+
+  if (issuer !== undefined) {
+    const issuers = Array.isArray(issuer) ? issuer : [issuer];
+    if (typeof claims.iss !== 'string' || !issuers.includes(claims.iss)) {
+      throw new Error('Invalid token issuer');
+    }
+  }
+  if (audience !== undefined) {
+    const audiences = Array.isArray(audience) ? audience : [audience];
+    const tokenAudiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!tokenAudiences.some(aud => typeof aud === 'string' && audiences.includes(aud))) {
+      throw new Error('Invalid token audience');
+    }
+  }
+  for (const claim of requiredClaims) {
+    if (claims[claim] === undefined) {
+      throw new Error('Missing token claim');
+    }
+  }
+}
+
+/**
+ * Verify a JWT's signature and standard claims (exp, nbf, plus JwtClaimOptions)
+ * HS256 tokens are checked against the secret, others against the key set
+ * by kid with the algorithm pinned to the key. Returns the payload.
+ *
+ * Throws a generic Error on any failure
+ */
+export async function verifyJwt(token: string, options: JwtVerifyOptions): Promise<Record<string, unknown>> {
+  const { secret, keySet } = options;
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new Error('Invalid token');
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  let header: { alg?: unknown; kid?: unknown };
+  let payload: unknown;
+  try {
+    header = JSON.parse(base64UrlDecode(encodedHeader).toString('utf8'));
+    payload = JSON.parse(base64UrlDecode(encodedPayload).toString('utf8'));
+  } catch {
+    throw new Error('Invalid token');
+  }
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new Error('Invalid token');
+  }
+
+  const data = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = base64UrlDecode(encodedSignature);
+  let valid = false;
+
+  if (header.alg === 'HS256') {
+    // SECURITY: Symmetric tokens never reach the key set (algorithm confusion)
+    if (!secret) throw new Error('Invalid token');
+    const expected = createHmac('sha256', secret).update(data).digest();
+    valid = expected.length === signature.length && timingSafeEqual(expected, signature);
+  } else {
+    if (!keySet) throw new Error('Invalid token');
+    const kid = typeof header.kid === 'string' ? header.kid : undefined;
+    const key = await keySet.getKey(kid);
+    // SECURITY: The header alg must match the algorithm pinned to the key
+    if (!key || header.alg !== key.alg) throw new Error('Invalid token');
+
+    if (key.alg === 'RS256') {
+      valid = verify('sha256', data, key.key, signature);
+    } else if (key.alg === 'ES256') {
+      valid = verify('sha256', data, { key: key.key, dsaEncoding: 'ieee-p1363' }, signature);
+    } else {
+      valid = verify(null, data, key.key, signature);
+    }
+  }
+  if (!valid) throw new Error('Invalid token');
+
+  const claims = payload as Record<string, unknown>;
+  checkClaims(claims, options);
+  return claims;
+}
@@ -0,0 +1,79 @@
+/**
+ * Bounded quantile sketch (DDSketch-style, log-spaced bins)
+ *
+ * Values are counted in bins whose width grows with the value, so any
+ * quantile is accurate to within `relativeAccuracy` of the true value while
+ * memory stays bounded by `maxBins`. The sketch is a plain object, so it can
+ * live in stores and be serialized as-is.
+ */
+export interface QuantileSketch {
+  /** Relative accuracy of returned quantiles (e.g. 0.01 = 1%) */
+  relativeAccuracy: number;
+  /** Max bins kept; the lowest bins are merged past this */
+  maxBins: number;
+  /** Bin index -> count */
+  bins: Record<number, number>;
+  /** Count of values <= 0 */
+  zeroCount: number;
+  count: number;
+}
+
+/**
+ * Create an empty quantile sketch
+ */
+export function createQuantileSketch(relativeAccuracy = 0.01, maxBins = 1024): QuantileSketch {
+  return { relativeAccuracy, maxBins, bins: {}, zeroCount: 0, count: 0 };
+}
+
+function getGamma(sketch: QuantileSketch): number {
+  return (1 + sketch.relativeAccuracy) / (1 - sketch.relativeAccuracy);
+}
+
+/**
+ * Add a value to the sketch
+ */
+export function addToSketch(sketch: QuantileSketch, value: number) {
+  sketch.count++;
+  if (value <= 0) {
+    sketch.zeroCount++;
+    return;
+  }
+
+  const index = Math.ceil(Math.log(value) / Math.log(getGamma(sketch)));
+  if (sketch.bins[index]) {
+    sketch.bins[index]++;
+    return;
+  }
+  sketch.bins[index] = 1;
+
+  // Keep memory bounded by folding the lowest bins together
+  const indexes = Object.keys(sketch.bins).map(Number);
+  if (indexes.length > sketch.maxBins) {
+    indexes.sort((a, b) => a - b);
+    const [lowest, next] = indexes;
+    sketch.bins[next] += sketch.bins[lowest];
+    delete sketch.bins[lowest];
+  }
+}
+
+/**
+ * Get the value at quantile q (0..1), or 0 for an empty sketch
+ */
+export function getQuantile(sketch: QuantileSketch, q: number): number {
+  if (sketch.count === 0) return 0;
+
+  const rank = Math.max(1, Math.ceil(q * sketch.count));
+  if (rank <= sketch.zeroCount) return 0;
+
+  const gamma = getGamma(sketch);
+  let seen = sketch.zeroCount;
+  const indexes = Object.keys(sketch.bins).map(Number).sort((a, b) => a - b);
+  for (const index of indexes) {
+    seen += sketch.bins[index];
+    if (seen >= rank) {
+      // Midpoint of the bin (in relative terms) keeps the error within relativeAccuracy
+      return (2 * Math.pow(gamma, index)) / (gamma + 1);
+    }
+  }
+  return (2 * Math.pow(gamma, indexes[indexes.length - 1])) / (gamma + 1);
+}
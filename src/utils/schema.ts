@@ -0,0 +1,249 @@
+/**
+ * Runtime Schema Validation
+ * Validators for the shared wire types (types/ is compile-time only)
+ *
+ * Wire payloads carry a schemaVersion ('MAJOR.MINOR'). Versions with the same
+ * major are compatible: minor bumps only add optional fields, which
+ * validators ignore. A payload without schemaVersion predates versioning and
+ * is treated as 1.0.
+ *
+ * Validators accept unknown extra fields (e.g. JWT iat/exp) and return them
+ * untouched.
+ */
+import type { AuthUser } from '../types/auth.js';
+import type { HealthCheckResponse, HubSummaryResponse } from '../types/hub.js';
+import type { RequestMetric } from '../types/metrics.js';
+
+/**
+ * Schema version of the wire types in this package
+ * Bump the minor for additive changes, the major for breaking ones
+ */
+export const SCHEMA_VERSION = '1.1';
+
+/** Version assumed for payloads sent before schemaVersion existed */
+const LEGACY_SCHEMA_VERSION = '1.0';
+
+export interface ValidationError {
+  /** Dotted path to the offending field, e.g. 'metrics.primary.label' */
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: ValidationError[] };
+
+/**
+ * Parse a 'MAJOR.MINOR' version string
+ */
+function parseVersion(version: string): { major: number; minor: number } | null {
+  const match = /^(\d+)\.(\d+)$/.exec(version);
+  if (!match) return null;
+  return { major: Number(match[1]), minor: Number(match[2]) };
+}
+
+/**
+ * Check whether a payload's schemaVersion can be read by this package
+ * Returns false for malformed versions or a different major version
+ */
+export function isSchemaCompatible(version: string | undefined): boolean {
+  const theirs = parseVersion(version ?? LEGACY_SCHEMA_VERSION);
+  const ours = parseVersion(SCHEMA_VERSION)!;
+  return theirs !== null && theirs.major === ours.major;
+}
+
+type Check = (value: unknown) => string | null;
+
+const isString: Check = value => typeof value === 'string' ? null : 'must be a string';
+const isNonEmptyString: Check = value =>
+  typeof value === 'string' && value.length > 0 ? null : 'must be a non-empty string';
+const isNumber: Check = value =>
+  typeof value === 'number' && Number.isFinite(value) ? null : 'must be a finite number';
+const isBoolean: Check = value => typeof value === 'boolean' ? null : 'must be a boolean';
+const isTimestamp: Check = value =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : 'must be an ISO timestamp';
+const isStringOrNumber: Check = value =>
+  typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value))
+    ? null
+    : 'must be a string or number';
+const oneOf = (...allowed: string[]): Check => value =>
+  allowed.includes(value as string) ? null : `must be one of ${allowed.join(', ')}`;
+const isStringArray: Check = value =>
+  Array.isArray(value) && value.every(item => typeof item === 'string') ? null : 'must be an array of strings';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collects errors while walking an object
+ */
+class Validator {
+  errors: ValidationError[] = [];
+
+  constructor(private prefix = '') {}
+
+  private path(key: string) {
+    return this.prefix ? `${this.prefix}.${key}` : key;
+  }
+
+  add(key: string, message: string) {
+    this.errors.push({ path: this.path(key), message });
+  }
+
+  required(obj: Record<string, unknown>, key: string, check: Check) {
+    if (obj[key] === undefined) {
+      this.add(key, 'is required');
+      return;
+    }
+    const message = check(obj[key]);
+    if (message) this.add(key, message);
+  }
+
+  optional(obj: Record<string, unknown>, key: string, check: Check) {
+    if (obj[key] === undefined) return;
+    const message = check(obj[key]);
+    if (message) this.add(key, message);
+  }
+
+  /** Validate a nested object at obj[key] */
+  nested(obj: Record<string, unknown>, key: string, required: boolean,
+    walk: (value: Record<string, unknown>, v: Validator) => void) {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) this.add(key, 'is required');
+      return;
+    }
+    if (!isRecord(value)) {
+      this.add(key, 'must be an object');
+      return;
+    }
+    const child = new Validator(this.path(key));
+    walk(value, child);
+    this.errors.push(...child.errors);
+  }
+
+  schemaVersion(obj: Record<string, unknown>) {
+    this.optional(obj, 'schemaVersion', isString);
+    if (typeof obj.schemaVersion === 'string' && !isSchemaCompatible(obj.schemaVersion)) {
+      this.add('schemaVersion', `${obj.schemaVersion} is not compatible with ${SCHEMA_VERSION}`);
+    }
+  }
+}
+
+/**
+ * Run a validator against an unknown value
+ */
+function validate<T>(value: unknown, walk: (obj: Record<string, unknown>, v: Validator) => void): ValidationResult<T> {
+  if (!isRecord(value)) {
+    return { ok: false, errors: [{ path: '', message: 'must be an object' }] };
+  }
+  const v = new Validator();
+  walk(value, v);
+  return v.errors.length === 0
+    ? { ok: true, value: value as T }
+    : { ok: false, errors: v.errors };
+}
+
+function walkHubMetric(obj: Record<string, unknown>, v: Validator) {
+  v.required(obj, 'label', isString);
+  v.required(obj, 'value', isStringOrNumber);
+}
+
+function walkDependencyCheck(obj: Record<string, unknown>, v: Validator) {
+  v.required(obj, 'ok', isBoolean);
+  v.required(obj, 'latencyMs', isNumber);
+  v.optional(obj, 'error', oneOf('failed', 'timeout'));
+  v.required(obj, 'critical', isBoolean);
+}
+
+/**
+ * Validate a JWT payload as an AuthUser
+ */
+export function validateAuthUser(value: unknown): ValidationResult<AuthUser> {
+  return validate<AuthUser>(value, (obj, v) => {
+    v.schemaVersion(obj);
+    v.required(obj, 'id', isNonEmptyString);
+    v.required(obj, 'email', isString);
+    v.required(obj, 'name', isString);
+    v.optional(obj, 'picture', isString);
+    v.optional(obj, 'roles', isStringArray);
+    v.optional(obj, 'scopes', isStringArray);
+  });
+}
+
+/**
+ * Validate a /health response
+ */
+export function validateHealthCheckResponse(value: unknown): ValidationResult<HealthCheckResponse> {
+  return validate<HealthCheckResponse>(value, (obj, v) => {
+    v.schemaVersion(obj);
+    v.required(obj, 'status', oneOf('ok', 'error'));
+    v.required(obj, 'service', isString);
+    v.required(obj, 'timestamp', isTimestamp);
+    v.nested(obj, 'checks', false, (checks, cv) => {
+      for (const name of Object.keys(checks)) {
+        cv.nested(checks, name, true, walkDependencyCheck);
+      }
+    });
+  });
+}
+
+/**
+ * Validate a /hub/summary response
+ */
+export function validateHubSummaryResponse(value: unknown): ValidationResult<HubSummaryResponse> {
+  return validate<HubSummaryResponse>(value, (obj, v) => {
+    v.schemaVersion(obj);
+    v.required(obj, 'service', isString);
+    v.required(obj, 'lastUpdated', isTimestamp);
+    v.required(obj, 'status', oneOf('healthy', 'stale', 'error', 'offline'));
+    v.nested(obj, 'metrics', true, (metrics, mv) => {
+      mv.nested(metrics, 'primary', true, walkHubMetric);
+      if (metrics.secondary === undefined) return;
+      if (!Array.isArray(metrics.secondary)) {
+        mv.add('secondary', 'must be an array');
+        return;
+      }
+      // Index keys give paths like 'metrics.secondary.0.label'
+      const secondary: Record<string, unknown> = { ...metrics.secondary };
+      mv.nested({ secondary }, 'secondary', true, (items, iv) => {
+        for (const index of Object.keys(items)) {
+          iv.nested(items, index, true, walkHubMetric);
+        }
+      });
+    });
+    v.optional(obj, 'objectiveProgress', isNumber);
+  });
+}
+
+/**
+ * Validate a stored or transmitted RequestMetric
+ */
+export function validateRequestMetric(value: unknown): ValidationResult<RequestMetric> {
+  return validate<RequestMetric>(value, (obj, v) => {
+    v.schemaVersion(obj);
+    v.required(obj, 'timestamp', isTimestamp);
+    v.required(obj, 'service', isString);
+    v.required(obj, 'method', isString);
+    v.required(obj, 'path', isString);
+    v.optional(obj, 'route', isString);
+    v.required(obj, 'status', isNumber);
+    v.required(obj, 'durationMs', isNumber);
+    v.required(obj, 'ip', isString);
+    v.required(obj, 'userAgent', isString);
+    v.optional(obj, 'userId', isString);
+    v.required(obj, 'isBot', isBoolean);
+    v.required(obj, 'isInternal', isBoolean);
+    v.required(obj, 'isSuspicious', isBoolean);
+    v.optional(obj, 'matchedRules', isStringArray);
+    v.optional(obj, 'severity', oneOf('low', 'medium', 'high', 'critical'));
+  });
+}
+
+/**
+ * Format validation errors for logs, e.g. "metrics.primary.label must be a string"
+ */
+export function formatValidationErrors(errors: ValidationError[]): string {
+  return errors.map(error => error.path ? `${error.path} ${error.message}` : error.message).join('; ');
+}
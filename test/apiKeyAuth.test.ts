@@ -0,0 +1,187 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Hono } from 'hono';
+import type { Context, MiddlewareHandler, Next } from 'hono';
+import { createApiKeyAuth } from '../src/middleware/apiKeyAuth.js';
+import { createApiKeyStore, createRedisApiKeyStore } from '../src/middleware/apiKeyStore.js';
+import type { ApiKeyStore } from '../src/middleware/apiKeyStore.js';
+import { requireScope } from '../src/middleware/authorize.js';
+import { createApiKeyRoutes } from '../src/routes/apiKeys.js';
+import { createFakeRedis } from './helpers/fakeRedis.js';
+
+const OWNER = { id: 'owner', email: 'owner@example.test', name: 'Owner', roles: ['admin'], scopes: ['everything'] };
+
+function createApp(store: ApiKeyStore, fallback?: MiddlewareHandler) {
+  const apiKeys = createApiKeyAuth({ store });
+  const app = new Hono();
+  app.use('/api/*', fallback ? apiKeys.withApiKeys(fallback) : apiKeys.requireApiKey);
+  app.get('/api/me', (c: Context) => c.json(c.get('user')));
+  app.post('/api/import', requireScope('import:write'), (c) => c.text('imported'));
+  return { app, apiKeys };
+}
+
+const bearer = (key: string) => ({ headers: { Authorization: `Bearer ${key}` } });
+
+describe.each([
+  ['in-memory', () => createApiKeyStore()],
+  ['redis', () => createRedisApiKeyStore(createFakeRedis().connect())],
+])('API key auth (%s store)', (_, createStore) => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('authenticates a key as its user with the key scopes and no roles', async () => {
+    const store = createStore();
+    const { app, apiKeys } = createApp(store);
+    const { key, record } = await apiKeys.createKey(OWNER, { name: 'cron', scopes: ['import:write'] });
+
+    // Only the hash of the secret is stored
+    expect(JSON.stringify(await store.get(record.id))).not.toContain(key.slice(21));
+
+    for (const init of [bearer(key), { headers: { 'X-API-Key': key } }]) {
+      const res = await app.request('/api/me', init);
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ id: OWNER.id, email: OWNER.email, name: OWNER.name, scopes: ['import:write'] });
+    }
+  });
+
+  it('rejects a known id with the wrong secret, an unknown id and malformed keys', async () => {
+    const { app, apiKeys } = createApp(createStore());
+    const { key } = await apiKeys.createKey(OWNER, { name: 'cron' });
+    const other = await apiKeys.createKey(OWNER, { name: 'other' });
+    // cdx_<16 hex id>_<secret>
+    const [prefixAndId, secret] = [key.slice(0, 20), key.slice(21)];
+
+    const wrongSecret = `${prefixAndId}_${other.key.slice(21)}`;
+    const unknownId = `cdx_0000000000000000_${secret}`;
+    for (const bad of [wrongSecret, unknownId, 'cdx_nope', `${key}x`]) {
+      expect((await app.request('/api/me', bearer(bad))).status).toBe(401);
+    }
+  });
+
+  it('checks the key scopes', async () => {
+    const { app, apiKeys } = createApp(createStore());
+    const reader = await apiKeys.createKey(OWNER, { name: 'reader', scopes: ['metrics:read'] });
+    const importer = await apiKeys.createKey(OWNER, { name: 'importer', scopes: ['import:write'] });
+
+    expect((await app.request('/api/import', { method: 'POST', ...bearer(reader.key) })).status).toBe(403);
+    expect((await app.request('/api/import', { method: 'POST', ...bearer(importer.key) })).status).toBe(200);
+  });
+
+  it('rejects expired keys', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { app, apiKeys } = createApp(createStore());
+    const { key } = await apiKeys.createKey(OWNER, { name: 'cron', expiresAt: Date.now() + 60 * 1000 });
+    expect((await app.request('/api/me', bearer(key))).status).toBe(200);
+
+    vi.setSystemTime(Date.now() + 61 * 1000);
+    expect((await app.request('/api/me', bearer(key))).status).toBe(401);
+  });
+
+  it('rejects revoked keys', async () => {
+    const store = createStore();
+    const { app, apiKeys } = createApp(store);
+    const { key, record } = await apiKeys.createKey(OWNER, { name: 'cron' });
+
+    expect(await store.delete(record.id)).toBe(true);
+    expect((await app.request('/api/me', bearer(key))).status).toBe(401);
+  });
+
+  it('records the last use at most once per touchInterval', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createStore();
+    const { app, apiKeys } = createApp(store);
+    const { key, record } = await apiKeys.createKey(OWNER, { name: 'cron' });
+    expect(record.lastUsedAt).toBeNull();
+
+    const firstUse = Date.now();
+    await app.request('/api/me', bearer(key));
+    expect((await store.get(record.id))?.lastUsedAt).toBe(firstUse);
+
+    vi.setSystemTime(firstUse + 30 * 1000);
+    await app.request('/api/me', bearer(key));
+    expect((await store.get(record.id))?.lastUsedAt).toBe(firstUse);
+
+    vi.setSystemTime(firstUse + 61 * 1000);
+    await app.request('/api/me', bearer(key));
+    expect((await store.get(record.id))?.lastUsedAt).toBe(firstUse + 61 * 1000);
+  });
+});
+
+describe('withApiKeys', () => {
+  const cookieAuth = async (c: Context, next: Next) => {
+    c.set('user', { id: 'cookie-user', email: 'cookie@example.test', name: 'Cookie' });
+    await next();
+  };
+
+  it('falls back without a key, but never for a bad key', async () => {
+    const { app } = createApp(createApiKeyStore(), cookieAuth);
+
+    const res = await app.request('/api/me');
+    expect((await res.json()).id).toBe('cookie-user');
+    expect((await app.request('/api/me', bearer('cdx_0000000000000000_nope'))).status).toBe(401);
+  });
+
+  it('ignores bearer tokens that are not API keys', async () => {
+    const { app } = createApp(createApiKeyStore(), cookieAuth);
+
+    expect((await app.request('/api/me', bearer('eyJhbGciOiJFZERTQSJ9.e30.sig'))).status).toBe(200);
+  });
+
+  it('fails closed when the store fails', async () => {
+    const store = { ...createApiKeyStore(), get: () => Promise.reject(new Error('Store unavailable')) };
+    const { app } = createApp(store, cookieAuth);
+    const { key } = await createApiKeyAuth({ store: createApiKeyStore() }).createKey(OWNER, { name: 'cron' });
+
+    expect((await app.request('/api/me', bearer(key))).status).toBe(401);
+  });
+});
+
+describe('API key routes', () => {
+  function createRoutes(user: typeof OWNER | null) {
+    const store = createApiKeyStore();
+    const apiKeys = createApiKeyAuth({ store });
+    const requireAuth = async (c: Context, next: Next) => {
+      if (user) c.set('user', user);
+      await next();
+    };
+    const app = new Hono();
+    app.route('/api/auth/keys', createApiKeyRoutes({
+      apiKeys,
+      store,
+      requireAuth: apiKeys.withApiKeys(requireAuth),
+      getUser: (c) => c.get('user'),
+      ownerUserId: OWNER.id,
+      scopes: ['import:write'],
+    }));
+    return { app, apiKeys };
+  }
+
+  const mint = (app: Hono, init: RequestInit = {}) => app.request('/api/auth/keys', {
+    method: 'POST',
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+    body: JSON.stringify({ name: 'cron', scopes: ['import:write'] }),
+  });
+
+  it('mints a key for the session user', async () => {
+    const { app } = createRoutes(OWNER);
+
+    const res = await mint(app);
+    expect(res.status).toBe(201);
+    expect(await res.json()).toMatchObject({ userId: OWNER.id, scopes: ['import:write'], lastUsedAt: null });
+  });
+
+  it("doesn't let API keys manage keys", async () => {
+    const { app, apiKeys } = createRoutes(OWNER);
+    const { key } = await apiKeys.createKey(OWNER, { name: 'cron' });
+
+    expect((await mint(app, bearer(key))).status).toBe(403);
+    expect((await app.request('/api/auth/keys', bearer(key))).status).toBe(403);
+  });
+
+  it('answers 401 without a user', async () => {
+    const { app } = createRoutes(null);
+
+    expect((await mint(app)).status).toBe(401);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import { Hono } from 'hono';
+import { createAuthMiddleware } from '../src/middleware/auth.js';
+import { createRevocationStore } from '../src/middleware/revocationStore.js';
+import { createDevHub } from '../src/routes/devHub.js';
+import { signJwt } from '../src/utils/jwks.js';
+
+const SECRET = 'test-jwt-secret-at-least-32-characters-long';
+const USER = { id: 'user-1', email: 'user@example.test', name: 'User' };
+const now = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Sign an access token that expires within renewBefore
+ */
+function expiringToken(claims: Record<string, unknown> = {}) {
+  return signJwt({ ...USER, iat: now(), exp: now() + 60, jti: randomUUID(), ...claims }, { alg: 'HS256', secret: SECRET });
+}
+
+/**
+ * Local Hub stand-in answering re-issues of access tokens
+ */
+function createHub(options: { authTime?: (claimed: unknown) => unknown } = {}) {
+  const calls: unknown[] = [];
+  const hub = new Hono();
+  hub.post('/refresh', async (c) => {
+    const body = await c.req.json();
+    calls.push(body);
+    const payload = JSON.parse(Buffer.from(body.accessToken.split('.')[1], 'base64url').toString('utf8'));
+    const authTime = options.authTime ? options.authTime(payload.auth_time) : payload.auth_time;
+    return c.json({
+      accessToken: signJwt({ ...USER, iat: now(), exp: now() + 900, auth_time: authTime, jti: randomUUID() }, { alg: 'HS256', secret: SECRET }),
+    });
+  });
+  return { calls, fetch: (url: string, init?: RequestInit) => hub.request(url, init) };
+}
+
+function createApp(hub: ReturnType<typeof createHub>, extra: { revocationStore?: ReturnType<typeof createRevocationStore> } = {}) {
+  const { requireAuth } = createAuthMiddleware({
+    jwtSecret: SECRET,
+    hubPublicUrl: 'http://hub.test',
+    frontendUrl: 'http://app.test',
+    session: { hubRefreshUrl: 'http://hub.test/refresh', fetch: hub.fetch, maxRenewAge: 60 * 60 },
+    isProduction: false,
+    ...extra,
+  });
+  const app = new Hono();
+  app.use('/api/*', requireAuth);
+  app.get('/api/items', (c) => c.json({ ok: true }));
+  return app;
+}
+
+const request = (app: Hono, token: string) =>
+  app.request('/api/items', { headers: { Cookie: `auth_token=${token}` } });
+
+describe('requireAuth renewal', () => {
+  it('re-issues an expiring token within maxRenewAge of login', async () => {
+    const hub = createHub();
+    const res = await request(createApp(hub), expiringToken({ auth_time: now() - 60 }));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('set-cookie')).toContain('auth_token=');
+    expect(hub.calls).toHaveLength(1);
+  });
+
+  it('stops re-issuing once maxRenewAge has passed since login', async () => {
+    const hub = createHub();
+    const res = await request(createApp(hub), expiringToken({ auth_time: now() - 2 * 60 * 60 }));
+
+    // The token is still valid until it expires, it just isn't renewed
+    expect(res.status).toBe(200);
+    expect(res.headers.get('set-cookie')).toBeNull();
+    expect(hub.calls).toHaveLength(0);
+  });
+
+  it('never re-issues tokens without auth_time', async () => {
+    const hub = createHub();
+    const res = await request(createApp(hub), expiringToken());
+
+    expect(res.status).toBe(200);
+    expect(hub.calls).toHaveLength(0);
+  });
+
+  it('refuses re-issued tokens that move auth_time forward', async () => {
+    const hub = createHub({ authTime: () => now() });
+    const res = await request(createApp(hub), expiringToken({ auth_time: now() - 60 }));
+
+    expect(res.status).toBe(200);
+    expect(hub.calls).toHaveLength(1);
+    expect(res.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('checks the revocation store before re-issuing', async () => {
+    const hub = createHub();
+    const revocationStore = createRevocationStore();
+    const jti = randomUUID();
+    await revocationStore.revoke(jti, Date.now() + 60 * 1000);
+
+    const res = await request(createApp(hub, { revocationStore }), expiringToken({ auth_time: now() - 60, jti }));
+
+    expect(res.status).toBe(401);
+    expect(hub.calls).toHaveLength(0);
+  });
+
+  it('keeps re-issuing through the configured Hub for services sharing options with a devHub', async () => {
+    const hub = createHub();
+    const session = { hubRefreshUrl: 'http://hub.test/refresh', fetch: hub.fetch, maxRenewAge: 60 * 60 };
+    const devHub = createDevHub({
+      hubPublicUrl: 'http://localhost:6100',
+      selfUrl: 'http://localhost:3000',
+      jwtSecret: SECRET,
+      isProduction: false,
+    });
+    createAuthMiddleware({
+      jwtSecret: SECRET,
+      hubPublicUrl: 'http://localhost:6100',
+      frontendUrl: 'http://localhost:5173',
+      selfUrl: 'http://localhost:3000',
+      session,
+      isProduction: false,
+      devHub,
+    });
+
+    const { requireAuth } = createAuthMiddleware({
+      jwtSecret: SECRET,
+      hubPublicUrl: 'http://hub.test',
+      frontendUrl: 'http://app.test',
+      session,
+      isProduction: false,
+    });
+    const app = new Hono();
+    app.use('/api/*', requireAuth);
+    app.get('/api/items', (c) => c.json({ ok: true }));
+    const res = await request(app, expiringToken({ auth_time: now() - 60 }));
+
+    expect(res.headers.get('set-cookie')).toContain('auth_token=');
+    expect(hub.calls).toHaveLength(1);
+    expect(session).toEqual({ hubRefreshUrl: 'http://hub.test/refresh', fetch: hub.fetch, maxRenewAge: 60 * 60 });
+  });
+
+  it('re-issues through the devHub without a hubRefreshUrl', async () => {
+    const hubPublicUrl = 'http://localhost:6100';
+    const selfUrl = 'http://localhost:3000';
+    // Tokens expiring within renewBefore
+    const devHub = createDevHub({ hubPublicUrl, selfUrl, jwtSecret: SECRET, isProduction: false, tokenTtl: 60 });
+    const config = { jwtSecret: SECRET, hubPublicUrl, frontendUrl: 'http://localhost:5173', isProduction: false };
+
+    expect(() => createAuthMiddleware({ ...config, session: {} })).toThrow('hubRefreshUrl is required');
+    const { requireAuth } = createAuthMiddleware({ ...config, selfUrl, session: {}, devHub });
+    const app = new Hono();
+    app.use('/api/*', requireAuth);
+    app.get('/api/items', (c) => c.json({ ok: true }));
+
+    const redirectUri = `${selfUrl}/api/auth/callback`;
+    const login = await devHub.request('/login', { method: 'POST', body: new URLSearchParams({ preset: '0', returnTo: redirectUri }) });
+    const code = new URL(login.headers.get('location')!).searchParams.get('code');
+    const tokens = await devHub.request('/token', { method: 'POST', body: JSON.stringify({ code, redirectUri }) });
+    const res = await request(app, (await tokens.json()).accessToken);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('set-cookie')).toContain('auth_token=');
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { randomBytes, randomUUID } from 'node:crypto';
+import { Hono } from 'hono';
+import { createAuthRoutes } from '../src/routes/auth.js';
+import type { AuthRoutesConfig } from '../src/routes/auth.js';
+import { createRevocationStore } from '../src/middleware/revocationStore.js';
+import { signJwt } from '../src/utils/jwks.js';
+
+const SECRET = 'test-jwt-secret-at-least-32-characters-long';
+const SELF = 'http://api.test';
+const FRONTEND = 'http://app.test';
+const USER = { id: 'user-1', email: 'user@example.test', name: 'User' };
+
+const mintToken = () => {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt({ ...USER, iat: now, exp: now + 900, auth_time: now, jti: randomUUID() }, { alg: 'HS256', secret: SECRET });
+};
+
+/**
+ * Local Hub stand-in: hands out one-time codes and exchanges them at POST /token
+ */
+function createHub() {
+  const codes = new Map<string, string>();
+  const hub = new Hono();
+  hub.post('/token', async (c) => {
+    const { code, redirectUri } = await c.req.json();
+    const expected = codes.get(code);
+    codes.delete(code);
+    if (!expected || expected !== redirectUri) {
+      return c.json({ error: 'Invalid code' }, 400);
+    }
+    return c.json({ accessToken: mintToken() });
+  });
+
+  return {
+    issueCode(redirectUri = `${SELF}/api/auth/callback`) {
+      const code = randomBytes(16).toString('base64url');
+      codes.set(code, redirectUri);
+      return code;
+    },
+    fetch: (url: string, init?: RequestInit) => hub.request(url, init),
+  };
+}
+
+function createApp(hub: ReturnType<typeof createHub>, overrides: Partial<AuthRoutesConfig> = {}) {
+  const app = new Hono();
+  app.route('/api/auth', createAuthRoutes({
+    jwtSecret: SECRET,
+    hubPublicUrl: 'http://hub.test',
+    selfUrl: SELF,
+    frontendUrl: FRONTEND,
+    codeExchange: { hubTokenUrl: 'http://hub.test/token', fetch: hub.fetch },
+    isProduction: false,
+    ...overrides,
+  }));
+  return app;
+}
+
+/**
+ * Start a login: returns the signed state the Hub passes back and the nonce cookie
+ */
+async function startLogin(app: Hono, returnTo = `${FRONTEND}/items?page=2`) {
+  const res = await app.request(`/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`);
+  const hubReturnTo = new URL(new URL(res.headers.get('location')!).searchParams.get('returnTo')!);
+  return {
+    state: hubReturnTo.searchParams.get('state')!,
+    cookie: res.headers.get('set-cookie')!.split(';')[0],
+  };
+}
+
+function callback(app: Hono, query: Record<string, string>, cookie?: string) {
+  return app.request(`/api/auth/callback?${new URLSearchParams(query)}`, {
+    headers: cookie ? { Cookie: cookie } : {},
+  });
+}
+
+describe('auth routes code exchange', () => {
+  it('exchanges the code and returns to the signed returnTo', async () => {
+    const hub = createHub();
+    const app = createApp(hub);
+    const { state, cookie } = await startLogin(app);
+
+    const res = await callback(app, { state, code: hub.issueCode() }, cookie);
+
+    expect(res.headers.get('location')).toBe(`${FRONTEND}/items?page=2`);
+    expect(res.headers.get('referrer-policy')).toBe('no-referrer');
+    expect(res.headers.get('set-cookie')).toContain('auth_token=');
+  });
+
+  it('rejects a replayed code', async () => {
+    const hub = createHub();
+    const app = createApp(hub);
+    const code = hub.issueCode();
+
+    const first = await startLogin(app);
+    const used = await callback(app, { state: first.state, code }, first.cookie);
+    expect(used.headers.get('set-cookie')).toContain('auth_token=');
+
+    const second = await startLogin(app);
+    const res = await callback(app, { state: second.state, code }, second.cookie);
+    expect(res.headers.get('location')).toBe(`${FRONTEND}?error=invalid_code`);
+    expect(res.headers.get('set-cookie')).not.toContain('auth_token=');
+  });
+
+  it('rejects a state from another login attempt', async () => {
+    const hub = createHub();
+    const app = createApp(hub);
+    const victim = await startLogin(app);
+    const attacker = await startLogin(app);
+
+    const res = await callback(app, { state: attacker.state, code: hub.issueCode() }, victim.cookie);
+    expect(res.headers.get('location')).toBe(`${FRONTEND}?error=invalid_state`);
+  });
+
+  it('rejects a callback without state', async () => {
+    const hub = createHub();
+    const app = createApp(hub);
+    const { cookie } = await startLogin(app);
+
+    const res = await callback(app, { code: hub.issueCode() }, cookie);
+    expect(res.headers.get('location')).toBe(`${FRONTEND}?error=invalid_state`);
+  });
+
+  it('rejects a callback without the nonce cookie', async () => {
+    const hub = createHub();
+    const app = createApp(hub);
+    const { state } = await startLogin(app);
+
+    const res = await callback(app, { state, code: hub.issueCode() });
+    expect(res.headers.get('location')).toBe(`${FRONTEND}?error=invalid_state`);
+  });
+
+  it('ignores ?token= unless legacyTokenCallback is set', async () => {
+    const app = createApp(createHub());
+    const { state, cookie } = await startLogin(app);
+
+    const res = await callback(app, { state, token: mintToken() }, cookie);
+    expect(res.headers.get('location')).toBe(`${FRONTEND}?error=no_token`);
+  });
+
+  it('falls back to ?token= with legacyTokenCallback', async () => {
+    const hub = createHub();
+    const app = createApp(hub, { legacyTokenCallback: true });
+
+    const legacy = await startLogin(app);
+    const res = await callback(app, { state: legacy.state, token: mintToken() }, legacy.cookie);
+    expect(res.headers.get('location')).toBe(`${FRONTEND}/items?page=2`);
+    expect(res.headers.get('set-cookie')).toContain('auth_token=');
+
+    // A code still takes precedence when the Hub sends one
+    const withCode = await startLogin(app);
+    const exchanged = await callback(app, { state: withCode.state, code: hub.issueCode() }, withCode.cookie);
+    expect(exchanged.headers.get('set-cookie')).toContain('auth_token=');
+  });
+
+  it('works in legacy mode without a code exchange', async () => {
+    const app = createApp(createHub(), { codeExchange: undefined, legacyTokenCallback: true });
+    const { state, cookie } = await startLogin(app);
+
+    const forged = await callback(app, { state, token: 'not-a-jwt' }, cookie);
+    expect(forged.headers.get('location')).toBe(`${FRONTEND}?error=invalid_token`);
+
+    const next = await startLogin(app);
+    const res = await callback(app, { state: next.state, token: mintToken() }, next.cookie);
+    expect(res.headers.get('set-cookie')).toContain('auth_token=');
+  });
+
+  it('requires codeExchange unless legacyTokenCallback is set', () => {
+    expect(() => createApp(createHub(), { codeExchange: undefined })).toThrow(/codeExchange is required/);
+  });
+});
+
+describe('auth routes logout-all', () => {
+  it('answers 503 when the revocation store fails', async () => {
+    const revocationStore = {
+      ...createRevocationStore(),
+      revokeBefore: () => Promise.reject(new Error('Store unavailable')),
+    };
+    const app = createApp(createHub(), { revocationStore });
+
+    const res = await app.request('/api/auth/logout-all', {
+      method: 'POST',
+      headers: { Cookie: `auth_token=${mintToken()}` },
+    });
+    expect(res.status).toBe(503);
+    expect(res.headers.get('set-cookie')).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { Hono } from 'hono';
+import type { Context, Next } from 'hono';
+import { createCsrfProtection } from '../src/middleware/csrf.js';
+import { API_KEY_AUTH_METHOD } from '../src/middleware/apiKeyAuth.js';
+
+const FRONTEND = 'https://app.example.test';
+
+const csrf = createCsrfProtection({
+  secret: 'test-csrf-secret-at-least-32-characters',
+  trustedOrigins: [`${FRONTEND}/`],
+  isProduction: false,
+});
+
+/**
+ * App whose session user comes from the X-Test-User header (stands in for requireAuth)
+ */
+function createApp() {
+  const app = new Hono();
+  app.use('*', async (c: Context, next: Next) => {
+    const userId = c.req.header('x-test-user');
+    if (userId) c.set('user', { id: userId });
+    if (c.req.header('x-test-api-key')) c.set('authMethod', API_KEY_AUTH_METHOD);
+    await next();
+  });
+  app.get('/api/csrf', (c) => c.json({ token: csrf.issueToken(c) }));
+  app.use('/api/items', csrf.csrfProtection);
+  app.on(['GET', 'HEAD', 'OPTIONS', 'POST', 'PUT', 'DELETE'], '/api/items', (c) => c.json({ ok: true }));
+  app.use('/login', csrf.originProtection);
+  app.post('/login', (c) => c.text('ok'));
+  return app;
+}
+
+/**
+ * Get a token for a user's session, as the frontend would
+ */
+async function issueToken(app: Hono, userId: string) {
+  const res = await app.request('/api/csrf', { headers: { 'X-Test-User': userId } });
+  return {
+    token: (await res.json()).token as string,
+    cookie: res.headers.get('set-cookie')!.split(';')[0],
+  };
+}
+
+describe('csrfProtection', () => {
+  it('passes a request from a trusted origin with the session token', async () => {
+    const app = createApp();
+    const { token, cookie } = await issueToken(app, 'user-1');
+
+    const res = await app.request('/api/items', {
+      method: 'POST',
+      headers: { 'X-Test-User': 'user-1', Origin: FRONTEND, Cookie: cookie, 'X-CSRF-Token': token },
+    });
+    expect(res.status).toBe(200);
+  });
+
+  it('rejects a token bound to a different session', async () => {
+    const app = createApp();
+    const { token, cookie } = await issueToken(app, 'user-2');
+
+    const res = await app.request('/api/items', {
+      method: 'POST',
+      headers: { 'X-Test-User': 'user-1', Origin: FRONTEND, Cookie: cookie, 'X-CSRF-Token': token },
+    });
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: 'Forbidden' });
+  });
+
+  it('rejects a header that differs from the cookie', async () => {
+    const app = createApp();
+    const first = await issueToken(app, 'user-1');
+    const second = await issueToken(app, 'user-1');
+
+    const res = await app.request('/api/items', {
+      method: 'DELETE',
+      headers: { 'X-Test-User': 'user-1', Origin: FRONTEND, Cookie: first.cookie, 'X-CSRF-Token': second.token },
+    });
+    expect(res.status).toBe(403);
+  });
+
+  it('rejects a missing token', async () => {
+    const res = await createApp().request('/api/items', {
+      method: 'POST',
+      headers: { 'X-Test-User': 'user-1', Origin: FRONTEND },
+    });
+    expect(res.status).toBe(403);
+  });
+
+  it.each([
+    ['a missing Origin and Referer', {}],
+    ['an untrusted Origin', { Origin: 'https://evil.example.test' }],
+    ['a sibling subdomain', { Origin: 'https://other.example.test' }],
+    ['another port', { Origin: 'https://app.example.test:8443' }],
+    ['an untrusted Referer', { Referer: 'https://evil.example.test/app.example.test' }],
+    ["the literal 'null' origin", { Origin: 'null' }],
+  ])('rejects %s', async (_, originHeaders) => {
+    const app = createApp();
+    const { token, cookie } = await issueToken(app, 'user-1');
+
+    const res = await app.request('/api/items', {
+      method: 'PUT',
+      headers: { 'X-Test-User': 'user-1', Cookie: cookie, 'X-CSRF-Token': token, ...originHeaders },
+    });
+    expect(res.status).toBe(403);
+  });
+
+  it('falls back to the Referer origin without an Origin header', async () => {
+    const app = createApp();
+    const { token, cookie } = await issueToken(app, 'user-1');
+
+    const res = await app.request('/api/items', {
+      method: 'POST',
+      headers: { 'X-Test-User': 'user-1', Referer: `${FRONTEND}/items/1`, Cookie: cookie, 'X-CSRF-Token': token },
+    });
+    expect(res.status).toBe(200);
+  });
+
+  it.each(['GET', 'HEAD', 'OPTIONS'])('lets %s through without checks', async (method) => {
+    const res = await createApp().request('/api/items', { method, headers: { Origin: 'https://evil.example.test' } });
+    expect(res.status).toBe(200);
+  });
+
+  it('exempts requests authenticated with an API key', async () => {
+    const res = await createApp().request('/api/items', {
+      method: 'POST',
+      headers: { 'X-Test-User': 'user-1', 'X-Test-API-Key': '1' },
+    });
+    expect(res.status).toBe(200);
+  });
+});
+
+describe('issueToken', () => {
+  it('reuses a valid cookie for the same session', async () => {
+    const app = createApp();
+    const { token, cookie } = await issueToken(app, 'user-1');
+
+    const res = await app.request('/api/csrf', { headers: { 'X-Test-User': 'user-1', Cookie: cookie } });
+    expect((await res.json()).token).toBe(token);
+    expect(res.headers.get('set-cookie')).toBeNull();
+
+    const other = await app.request('/api/csrf', { headers: { 'X-Test-User': 'user-2', Cookie: cookie } });
+    expect((await other.json()).token).not.toBe(token);
+  });
+});
+
+describe('originProtection', () => {
+  it('only checks the origin', async () => {
+    const app = createApp();
+
+    expect((await app.request('/login', { method: 'POST', headers: { Origin: FRONTEND } })).status).toBe(200);
+    const res = await app.request('/login', { method: 'POST', headers: { Origin: 'https://evil.example.test' } });
+    expect(res.status).toBe(403);
+    // Pages get plain text
+    expect(await res.text()).toBe('Forbidden');
+  });
+});
+
+describe('createCsrfProtection', () => {
+  it('refuses short secrets and invalid origins', () => {
+    expect(() => createCsrfProtection({ secret: 'short', trustedOrigins: [FRONTEND] })).toThrow();
+    expect(() => createCsrfProtection({ secret: 'test-csrf-secret-at-least-32-characters', trustedOrigins: ['app'] })).toThrow();
+    expect(() => createCsrfProtection({ secret: 'test-csrf-secret-at-least-32-characters', trustedOrigins: [] })).toThrow();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { detectRequest, resolveDetectionRules } from '../src/middleware/detection.js';
+import type { DetectionOptions, DetectionRule } from '../src/middleware/detection.js';
+
+/**
+ * Run detection for a path as seen from an external IP
+ */
+async function detect(path: string, rules: DetectionRule[]) {
+  const app = new Hono();
+  let result: ReturnType<typeof detectRequest> | undefined;
+  app.get('*', (c: Context) => {
+    result = detectRequest(c, '203.0.113.7', rules);
+    return c.text('ok');
+  });
+  await app.request(path, { headers: { 'User-Agent': 'curl/8.0' } });
+  return result!;
+}
+
+describe('detection rules', () => {
+  it.each([['g'], ['y'], ['gy']])('matches the same way on every request with the %s flag', async (flags) => {
+    const options: DetectionOptions = {
+      rules: [{ id: 'probe-backup', category: 'probe', severity: 'medium', targets: ['path'], pattern: new RegExp('^/backup', flags) }],
+    };
+    const rules = resolveDetectionRules(options);
+
+    for (let i = 0; i < 3; i++) {
+      expect((await detect('/backup.zip', rules)).matchedRules).toEqual(['probe-backup']);
+    }
+    // The caller's rule is left alone
+    expect(options.rules![0].pattern.flags).toBe(flags);
+  });
+
+  it('replaces and disables built-in rules by id', async () => {
+    const options: DetectionOptions = {
+      rules: [{ id: 'probe-wordpress', category: 'probe', severity: 'low', targets: ['path'], pattern: /wp-login/ }],
+      disabledRules: ['probe-secret-files'],
+    };
+    const rules = resolveDetectionRules(options);
+
+    expect(await detect('/wp-admin', rules)).toMatchObject({ isSuspicious: false });
+    expect(await detect('/wp-login', rules)).toMatchObject({ matchedRules: ['probe-wordpress'], severity: 'low' });
+    expect(await detect('/.env', rules)).toMatchObject({ isSuspicious: false });
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * In-process fake Redis for tests
+ * Backed by ioredis-mock, which runs Lua scripts, so EVAL-based store code is
+ * exercised as it would be against a real server
+ */
+import RedisMock from 'ioredis-mock';
+import type { RedisCommandClient } from '../../src/middleware/rateLimitStore.js';
+
+let nextPort = 60000;
+
+/**
+ * Create a fake server; every client it connects shares the same data,
+ * like replicas of a service sharing one Redis
+ */
+export function createFakeRedis() {
+  const port = nextPort++;
+
+  const connect = (): RedisCommandClient => {
+    const redis = new RedisMock({ port }) as unknown as Record<string, (...args: string[]) => Promise<unknown>>;
+    return {
+      sendCommand: ([command, ...args]) => redis[command.toLowerCase()](...args),
+    };
+  };
+
+  return { connect };
+}
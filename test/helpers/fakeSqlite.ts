@@ -0,0 +1,72 @@
+/**
+ * In-memory fake of the SqliteDatabase shape for tests
+ * Only understands the statements the SQLite metrics sink prepares, and
+ * records every SELECT so tests can check how replay pages through rows
+ */
+import type { SqliteDatabase, SqliteStatement, SqliteValue } from '../../src/middleware/metricsSink.js';
+
+export interface FakeSqliteRow {
+  id: number;
+  timestamp: string;
+  ip: string;
+  is_suspicious: number;
+  data: string;
+}
+
+export function createFakeSqlite() {
+  const rows: FakeSqliteRow[] = [];
+  const selects: SqliteValue[][] = [];
+  let nextId = 1;
+
+  const statement = (sql: string): SqliteStatement => {
+    const command = sql.trim().split(/\s+/)[0];
+
+    if (command === 'INSERT') {
+      return {
+        run: (timestamp, ip, isSuspicious, data) => {
+          rows.push({ id: nextId++, timestamp: String(timestamp), ip: String(ip), is_suspicious: Number(isSuspicious), data: String(data) });
+        },
+        all: () => [],
+      };
+    }
+
+    if (command === 'SELECT') {
+      // WHERE id > ? AND timestamp >= ? ORDER BY id LIMIT ?
+      return {
+        run: () => undefined,
+        all: (...params) => {
+          selects.push(params);
+          const [afterId, cutoff, limit] = params;
+          return rows
+            .filter(row => row.id > Number(afterId) && row.timestamp >= String(cutoff))
+            .slice(0, Number(limit))
+            .map(({ id, data }) => ({ id, data }));
+        },
+      };
+    }
+
+    if (command === 'DELETE') {
+      const byAge = sql.includes('timestamp <');
+      return {
+        run: (param) => {
+          const maxId = rows.reduce((max, row) => Math.max(max, row.id), 0);
+          const remove = (row: FakeSqliteRow) =>
+            byAge ? row.timestamp < String(param) : row.id <= maxId - Number(param);
+          for (let i = rows.length - 1; i >= 0; i--) {
+            if (remove(rows[i])) rows.splice(i, 1);
+          }
+        },
+        all: () => [],
+      };
+    }
+
+    throw new Error(`FakeSqlite: unsupported statement: ${sql}`);
+  };
+
+  const db: SqliteDatabase = {
+    exec: () => undefined,
+    prepare: statement,
+  };
+
+  return { db, rows, selects };
+}
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { Hono } from 'hono';
+import { createHubRoutes } from '../src/routes/hub.js';
+import { createHubAggregator } from '../src/utils/hubClient.js';
+import type { HubFetch } from '../src/utils/hubClient.js';
+
+/**
+ * Route requests to local Hono apps by host, like a Docker network would
+ */
+function createNetwork(apps: Record<string, Hono>): HubFetch {
+  return (url, init) => {
+    const app = apps[new URL(url).host];
+    if (!app) throw new TypeError('fetch failed');
+    return app.request(url, init);
+  };
+}
+
+describe('createHubRoutes', () => {
+  it('answers /health with 503 when a critical check fails', async () => {
+    const app = createHubRoutes({
+      service: 'search',
+      checks: [
+        { name: 'db', check: () => { throw new Error('connect ECONNREFUSED 10.0.0.5:5432'); } },
+        { name: 'cache', check: () => false, critical: false },
+      ],
+    });
+
+    const res = await app.request('/health');
+    expect(res.status).toBe(503);
+    const body = await res.json();
+    expect(body.status).toBe('error');
+    // Error details never leak
+    expect(body.checks.db).toMatchObject({ ok: false, error: 'failed', critical: true });
+    expect(JSON.stringify(body)).not.toContain('10.0.0.5');
+  });
+
+  it('times out slow checks', async () => {
+    const app = createHubRoutes({
+      service: 'search',
+      checks: [{ name: 'slow', check: () => new Promise(() => {}), critical: false }],
+      checkTimeoutMs: 10,
+    });
+
+    const res = await app.request('/health');
+    expect(res.status).toBe(200);
+    expect((await res.json()).checks.slow).toMatchObject({ ok: false, error: 'timeout' });
+  });
+
+  it('marks the summary stale when the data is old', async () => {
+    const app = createHubRoutes({
+      service: 'tracker',
+      summary: () => ({
+        primary: { label: 'Items', value: 42 },
+        lastUpdated: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
+      }),
+    });
+
+    const body = await (await app.request('/hub/summary')).json();
+    expect(body).toMatchObject({ service: 'tracker', status: 'stale', metrics: { primary: { label: 'Items', value: 42 } } });
+  });
+
+  it('marks the summary stale when lastUpdated is not a valid date', async () => {
+    for (const lastUpdated of ['not a date', new Date(Number.NaN)]) {
+      const app = createHubRoutes({ service: 'tracker', summary: () => ({ lastUpdated }) });
+
+      const res = await app.request('/hub/summary');
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ status: 'stale', lastUpdated: new Date(0).toISOString() });
+    }
+  });
+});
+
+describe('createHubAggregator', () => {
+  it('merges healthy and failing services into a fleet view', async () => {
+    const hub = createHubAggregator({
+      services: [
+        { name: 'search', baseUrl: 'http://search:3000' },
+        { name: 'tracker', baseUrl: 'http://tracker:3000/' },
+        { name: 'gone', baseUrl: 'http://gone:3000' },
+      ],
+      fetch: createNetwork({
+        'search:3000': createHubRoutes({ service: 'search' }),
+        'tracker:3000': createHubRoutes({ service: 'tracker', checks: [{ name: 'db', check: () => false }] }),
+      }),
+    });
+
+    const fleet = await hub.poll();
+    expect(fleet.counts).toEqual({ healthy: 1, stale: 0, error: 1, offline: 1 });
+
+    const byName = Object.fromEntries(fleet.services.map(service => [service.name, service]));
+    expect(byName.search).toMatchObject({ status: 'healthy', consecutiveFailures: 0 });
+    expect(byName.search.summary?.service).toBe('search');
+    expect(byName.tracker.status).toBe('error');
+    expect(byName.gone).toMatchObject({ status: 'offline', error: 'network', consecutiveFailures: 1 });
+  });
+
+  it('keeps the last summary as stale, then offline, when a service stops answering', async () => {
+    let up = true;
+    const app = createHubRoutes({ service: 'search' });
+    const hub = createHubAggregator({
+      services: [{ name: 'search', baseUrl: 'http://search' }],
+      fetch: (url, init) => {
+        if (!up) throw new TypeError('fetch failed');
+        return app.request(url, init);
+      },
+      offlineAfter: 60,
+    });
+
+    await hub.poll();
+    up = false;
+
+    let [state] = (await hub.poll(true)).services;
+    expect(state).toMatchObject({ status: 'stale', error: 'network' });
+    expect(state.summary?.service).toBe('search');
+
+    // Last success too long ago
+    const hubOffline = createHubAggregator({
+      services: [{ name: 'search', baseUrl: 'http://search' }],
+      fetch: () => { throw new TypeError('fetch failed'); },
+      offlineAfter: 0,
+    });
+    [state] = (await hubOffline.poll()).services;
+    expect(state.status).toBe('offline');
+  });
+
+  it('backs off exponentially while a service keeps failing', async () => {
+    const hub = createHubAggregator({
+      services: [{ name: 'gone', baseUrl: 'http://gone' }],
+      fetch: () => { throw new TypeError('fetch failed'); },
+      intervalMs: 1000,
+      maxBackoffMs: 3000,
+    });
+
+    const delays: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      const [state] = (await hub.poll(true)).services;
+      delays.push(Date.parse(state.nextPollAt) - Date.parse(state.lastChecked!));
+    }
+    expect(delays).toEqual([1000, 2000, 3000]);
+
+    // Not due yet: a normal poll leaves it alone
+    const [state] = (await hub.poll()).services;
+    expect(state.consecutiveFailures).toBe(3);
+  });
+
+  it('reports timeouts, invalid and incompatible responses', async () => {
+    const invalid = new Hono();
+    invalid.get('/health', (c) => c.json({ status: 'ok' }));
+    invalid.get('/hub/summary', (c) => c.json({ service: 'invalid' }));
+
+    const incompatible = new Hono();
+    incompatible.get('/health', (c) => c.json({ status: 'ok', service: 'incompatible', timestamp: new Date().toISOString(), schemaVersion: '2.0' }));
+    incompatible.get('/hub/summary', (c) => c.json({
+      service: 'incompatible',
+      lastUpdated: new Date().toISOString(),
+      status: 'healthy',
+      metrics: { primary: { label: 'Items', value: 1 } },
+      schemaVersion: '2.0',
+    }));
+
+    const hub = createHubAggregator({
+      services: [
+        { name: 'slow', baseUrl: 'http://slow' },
+        { name: 'invalid', baseUrl: 'http://invalid' },
+        { name: 'incompatible', baseUrl: 'http://incompatible' },
+      ],
+      fetch: (url, init) => {
+        const host = new URL(url).host;
+        if (host === 'slow') return new Promise<Response>(() => {});
+        return (host === 'invalid' ? invalid : incompatible).request(url, init);
+      },
+      timeoutMs: 20,
+    });
+
+    const fleet = await hub.poll();
+    expect(Object.fromEntries(fleet.services.map(service => [service.name, service.error]))).toEqual({
+      slow: 'timeout',
+      invalid: 'invalid',
+      incompatible: 'incompatible',
+    });
+  });
+});
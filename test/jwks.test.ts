@@ -0,0 +1,284 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHmac, generateKeyPairSync, sign } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import { createJwtKeySet, signJwt, verifyJwt } from '../src/utils/jwks.js';
+import type { JwtKeyAlgorithm } from '../src/utils/jwks.js';
+
+const SECRET = 'test-jwt-secret-at-least-32-characters-long';
+const now = () => Math.floor(Date.now() / 1000);
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+const ed = generateKeyPairSync('ed25519');
+const ed2 = generateKeyPairSync('ed25519');
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/**
+ * Sign with a key the verifier knows under `kid`
+ */
+function signWith(alg: JwtKeyAlgorithm, privateKey: KeyObject, kid: string, claims: Record<string, unknown> = {}) {
+  return signJwt({ sub: 'user-1', iat: now(), exp: now() + 60, ...claims }, { alg, privateKey, kid });
+}
+
+/**
+ * JWKS endpoint stand-in serving whatever `keys` currently holds
+ */
+function createJwksServer(keys: Array<{ kid: string; key: KeyObject }>) {
+  const server = {
+    keys,
+    requests: 0,
+    fetch: async () => {
+      server.requests++;
+      return Response.json({ keys: server.keys.map(({ kid, key }) => ({ ...key.export({ format: 'jwk' }), kid, use: 'sig' })) });
+    },
+  };
+  return server;
+}
+
+describe('verifyJwt algorithms', () => {
+  it.each([
+    ['RS256', rsa],
+    ['ES256', ec],
+    ['EdDSA', ed],
+  ] as const)('verifies %s tokens against the pinned key', async (alg, pair) => {
+    const keySet = createJwtKeySet({ keys: [{ kid: 'k1', alg, key: pair.publicKey }] });
+
+    const claims = await verifyJwt(signWith(alg, pair.privateKey, 'k1'), { keySet });
+    expect(claims.sub).toBe('user-1');
+  });
+
+  it('accepts PEM and JWK public keys', async () => {
+    const keySet = createJwtKeySet({
+      keys: [
+        { kid: 'pem', alg: 'RS256', key: rsa.publicKey.export({ type: 'spki', format: 'pem' }) as string },
+        { kid: 'jwk', alg: 'ES256', key: ec.publicKey.export({ format: 'jwk' }) },
+      ],
+    });
+
+    await expect(verifyJwt(signWith('RS256', rsa.privateKey, 'pem'), { keySet })).resolves.toBeTruthy();
+    await expect(verifyJwt(signWith('ES256', ec.privateKey, 'jwk'), { keySet })).resolves.toBeTruthy();
+  });
+
+  it('only accepts ieee-p1363 ES256 signatures', async () => {
+    const keySet = createJwtKeySet({ keys: [{ kid: 'k1', alg: 'ES256', key: ec.publicKey }] });
+    const data = `${encode({ alg: 'ES256', kid: 'k1' })}.${encode({ sub: 'user-1' })}`;
+    const der = sign('sha256', Buffer.from(data), ec.privateKey).toString('base64url');
+
+    await expect(verifyJwt(`${data}.${der}`, { keySet })).rejects.toThrow('Invalid token');
+  });
+
+  it('refuses keys that do not match their algorithm', () => {
+    expect(() => createJwtKeySet({ keys: [{ kid: 'k1', alg: 'ES256', key: rsa.publicKey }] })).toThrow();
+  });
+
+  it('verifies HS256 tokens against the secret', async () => {
+    const token = signJwt({ sub: 'user-1' }, { alg: 'HS256', secret: SECRET });
+
+    await expect(verifyJwt(token, { secret: SECRET })).resolves.toMatchObject({ sub: 'user-1' });
+    await expect(verifyJwt(token, { secret: `${SECRET}-other` })).rejects.toThrow('Invalid token');
+  });
+});
+
+describe('verifyJwt rejects', () => {
+  const keySet = createJwtKeySet({ keys: [{ kid: 'k1', alg: 'RS256', key: rsa.publicKey }] });
+
+  it("alg 'none'", async () => {
+    const token = `${encode({ alg: 'none', kid: 'k1' })}.${encode({ sub: 'user-1' })}.`;
+
+    await expect(verifyJwt(token, { keySet })).rejects.toThrow('Invalid token');
+    await expect(verifyJwt(token, { keySet, secret: SECRET })).rejects.toThrow('Invalid token');
+  });
+
+  it('HS256 tokens signed with the public key (algorithm confusion)', async () => {
+    const pem = rsa.publicKey.export({ type: 'spki', format: 'pem' }) as string;
+    const data = `${encode({ alg: 'HS256', kid: 'k1' })}.${encode({ sub: 'admin' })}`;
+    const signature = createHmac('sha256', pem).update(data).digest('base64url');
+
+    await expect(verifyJwt(`${data}.${signature}`, { keySet })).rejects.toThrow('Invalid token');
+  });
+
+  it('a header alg that differs from the pinned one', async () => {
+    const data = `${encode({ alg: 'ES256', kid: 'k1' })}.${encode({ sub: 'user-1' })}`;
+    const signature = sign('sha256', Buffer.from(data), rsa.privateKey).toString('base64url');
+
+    await expect(verifyJwt(`${data}.${signature}`, { keySet })).rejects.toThrow('Invalid token');
+  });
+
+  it.each([
+    ['two segments', (token: string) => token.split('.').slice(0, 2).join('.')],
+    ['four segments', (token: string) => `${token}.x`],
+    ['a header that is not JSON', (token: string) => `${Buffer.from('{').toString('base64url')}.${token.split('.').slice(1).join('.')}`],
+    ['a payload that is not an object', (token: string) => {
+      const [header, , signature] = token.split('.');
+      return `${header}.${encode(['user-1'])}.${signature}`;
+    }],
+    ['characters outside base64url in the signature', (token: string) => `${token}!`],
+    ['standard base64 in the payload', (token: string) => {
+      const [header, payload, signature] = token.split('.');
+      return `${header}.${payload}+.${signature}`;
+    }],
+    ['a tampered payload', (token: string) => {
+      const [header, , signature] = token.split('.');
+      return `${header}.${encode({ sub: 'admin', exp: now() + 60 })}.${signature}`;
+    }],
+  ])('%s', async (_, mangle) => {
+    const token = signWith('RS256', rsa.privateKey, 'k1');
+
+    await expect(verifyJwt(mangle(token), { keySet })).rejects.toThrow();
+  });
+
+  it('expired tokens', async () => {
+    const token = signWith('RS256', rsa.privateKey, 'k1', { exp: now() - 1 });
+
+    await expect(verifyJwt(token, { keySet })).rejects.toThrow('Token expired');
+    await expect(verifyJwt(token, { keySet, clockTolerance: 30 })).resolves.toBeTruthy();
+  });
+
+  it('tokens that are not active yet', async () => {
+    const token = signWith('RS256', rsa.privateKey, 'k1', { nbf: now() + 10 });
+
+    await expect(verifyJwt(token, { keySet })).rejects.toThrow('Token not active');
+    await expect(verifyJwt(token, { keySet, clockTolerance: 30 })).resolves.toBeTruthy();
+  });
+});
+
+describe('createJwtKeySet', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('selects the key by kid', async () => {
+    const keySet = createJwtKeySet({
+      keys: [
+        { kid: 'old', alg: 'EdDSA', key: ed.publicKey },
+        { kid: 'new', alg: 'EdDSA', key: ed2.publicKey },
+      ],
+    });
+
+    await expect(verifyJwt(signWith('EdDSA', ed.privateKey, 'old'), { keySet })).resolves.toBeTruthy();
+    await expect(verifyJwt(signWith('EdDSA', ed2.privateKey, 'new'), { keySet })).resolves.toBeTruthy();
+    // Signed with the other key of the set
+    await expect(verifyJwt(signWith('EdDSA', ed.privateKey, 'new'), { keySet })).rejects.toThrow('Invalid token');
+  });
+
+  it('only falls back to the single key when the token has no kid', async () => {
+    const token = signJwt({ sub: 'user-1' }, { alg: 'EdDSA', privateKey: ed.privateKey, kid: '' });
+    const single = createJwtKeySet({ keys: [{ kid: 'k1', alg: 'EdDSA', key: ed.publicKey }] });
+    const several = createJwtKeySet({
+      keys: [
+        { kid: 'k1', alg: 'EdDSA', key: ed.publicKey },
+        { kid: 'k2', alg: 'EdDSA', key: ed2.publicKey },
+      ],
+    });
+
+    await expect(verifyJwt(token, { keySet: single })).resolves.toBeTruthy();
+    await expect(verifyJwt(token, { keySet: several })).rejects.toThrow('Invalid token');
+  });
+
+  it('caches the JWKS document until cacheMaxAge', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const server = createJwksServer([{ kid: 'k1', key: ed.publicKey }]);
+    const keySet = createJwtKeySet({ jwksUrl: 'http://hub.test/.well-known/jwks.json', fetch: server.fetch, cacheMaxAge: 600 });
+    const token = signWith('EdDSA', ed.privateKey, 'k1');
+
+    await verifyJwt(token, { keySet });
+    await verifyJwt(token, { keySet });
+    expect(server.requests).toBe(1);
+
+    vi.setSystemTime(Date.now() + 601 * 1000);
+    await verifyJwt(signWith('EdDSA', ed.privateKey, 'k1'), { keySet });
+    expect(server.requests).toBe(2);
+  });
+
+  it('reloads early for an unknown kid, at most once per minRefreshInterval', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const server = createJwksServer([{ kid: 'old', key: ed.publicKey }]);
+    const keySet = createJwtKeySet({ jwksUrl: 'http://hub.test/.well-known/jwks.json', fetch: server.fetch, minRefreshInterval: 30 });
+    await verifyJwt(signWith('EdDSA', ed.privateKey, 'old'), { keySet });
+
+    // The Hub rotates to a new key
+    server.keys = [{ kid: 'old', key: ed.publicKey }, { kid: 'new', key: ed2.publicKey }];
+    const rotated = signWith('EdDSA', ed2.privateKey, 'new');
+
+    // Too soon after the last load
+    await expect(verifyJwt(rotated, { keySet })).rejects.toThrow('Invalid token');
+    expect(server.requests).toBe(1);
+
+    vi.setSystemTime(Date.now() + 31 * 1000);
+    await expect(verifyJwt(rotated, { keySet })).resolves.toBeTruthy();
+    await expect(verifyJwt(signWith('EdDSA', ed.privateKey, 'old'), { keySet })).resolves.toBeTruthy();
+    expect(server.requests).toBe(2);
+
+    // Unknown kids don't reload again within the interval
+    await expect(verifyJwt(signWith('EdDSA', ed.privateKey, 'forged'), { keySet })).rejects.toThrow('Invalid token');
+    expect(server.requests).toBe(2);
+  });
+
+  it('keeps the last good keys when a reload fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const server = createJwksServer([{ kid: 'k1', key: ed.publicKey }]);
+    let failing = false;
+    const keySet = createJwtKeySet({
+      jwksUrl: 'http://hub.test/.well-known/jwks.json',
+      fetch: () => failing ? new Response('unavailable', { status: 503 }) : server.fetch(),
+    });
+    await verifyJwt(signWith('EdDSA', ed.privateKey, 'k1'), { keySet });
+
+    failing = true;
+    vi.setSystemTime(Date.now() + 601 * 1000);
+    await expect(verifyJwt(signWith('EdDSA', ed.privateKey, 'k1'), { keySet })).resolves.toBeTruthy();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('verifyJwt claim checks', () => {
+  const hs256 = (claims: Record<string, unknown>) =>
+    signJwt({ sub: 'user-1', iat: now(), exp: now() + 60, ...claims }, { alg: 'HS256', secret: SECRET });
+  const verify = (claims: Record<string, unknown>, options: Parameters<typeof verifyJwt>[1]) =>
+    verifyJwt(hs256(claims), { secret: SECRET, ...options });
+
+  it('checks the issuer against one or several accepted values', async () => {
+    await expect(verify({ iss: 'http://hub.test' }, { issuer: 'http://hub.test' })).resolves.toBeTruthy();
+    await expect(verify({ iss: 'http://hub.test' }, { issuer: ['http://old.test', 'http://hub.test'] })).resolves.toBeTruthy();
+    await expect(verify({ iss: 'http://other.test' }, { issuer: 'http://hub.test' })).rejects.toThrow('Invalid token issuer');
+    await expect(verify({}, { issuer: 'http://hub.test' })).rejects.toThrow('Invalid token issuer');
+  });
+
+  it('checks a string audience', async () => {
+    await expect(verify({ aud: 'items' }, { audience: 'items' })).resolves.toBeTruthy();
+    await expect(verify({ aud: 'items' }, { audience: ['billing', 'items'] })).resolves.toBeTruthy();
+    await expect(verify({ aud: 'billing' }, { audience: 'items' })).rejects.toThrow('Invalid token audience');
+    await expect(verify({}, { audience: 'items' })).rejects.toThrow('Invalid token audience');
+  });
+
+  it('accepts an audience array naming at least one accepted audience', async () => {
+    await expect(verify({ aud: ['billing', 'items'] }, { audience: 'items' })).resolves.toBeTruthy();
+    await expect(verify({ aud: ['billing', 'search'] }, { audience: ['items', 'admin'] })).rejects.toThrow('Invalid token audience');
+    await expect(verify({ aud: [] }, { audience: 'items' })).rejects.toThrow('Invalid token audience');
+  });
+
+  it('rejects tokens older than maxAge', async () => {
+    await expect(verify({ iat: now() - 30 }, { maxAge: 60 })).resolves.toBeTruthy();
+    await expect(verify({ iat: now() - 120 }, { maxAge: 60 })).rejects.toThrow('Token too old');
+    await expect(verify({ iat: now() - 70 }, { maxAge: 60, clockTolerance: 30 })).resolves.toBeTruthy();
+    await expect(verify({ iat: undefined }, { maxAge: 60 })).rejects.toThrow('Token too old');
+  });
+
+  it('keeps auth_time on the payload for session age checks', async () => {
+    const authTime = now() - 3600;
+
+    await expect(verify({ auth_time: authTime }, { maxAge: 60 })).resolves.toMatchObject({ auth_time: authTime });
+  });
+
+  it('requires the configured claims', async () => {
+    await expect(verify({ jti: 'id-1', auth_time: now() }, { requiredClaims: ['jti', 'auth_time'] })).resolves.toBeTruthy();
+    await expect(verify({ jti: 'id-1' }, { requiredClaims: ['jti', 'auth_time'] })).rejects.toThrow('Missing token claim');
+  });
+
+  it('rejects non-numeric exp and nbf', async () => {
+    await expect(verify({ exp: 'tomorrow' }, {})).rejects.toThrow('Token expired');
+    await expect(verify({ nbf: 'now' }, {})).rejects.toThrow('Token not active');
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { Hono } from 'hono';
+import { createMetricsStore, metricsLogger } from '../src/middleware/metrics.js';
+
+function createApp() {
+  const store = createMetricsStore();
+  const app = new Hono();
+  app.use('*', metricsLogger('test', { store }));
+  app.use('/api/*', async (_, next) => next());
+  app.get('/api/users/:id', (c) => c.text('user'));
+  app.get('/static/*', (c) => c.text('file'));
+  return { app, store };
+}
+
+describe('metricsLogger route templates', () => {
+  it.each([
+    ['/api/users/42', '/api/users/:id'],
+    ['/static/app.js', '/static/*'],
+    ['/static/css/site.css', '/static/*'],
+    ['/.env', 'other'],
+  ])('records %s as %s', async (path, route) => {
+    const { app, store } = createApp();
+
+    await app.request(path);
+    expect(store.metrics.at(-1)?.route).toBe(route);
+  });
+});
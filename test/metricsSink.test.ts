@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createJsonlMetricsSink, createSqliteMetricsSink } from '../src/middleware/metricsSink.js';
+import type { MetricsSink } from '../src/middleware/metricsSink.js';
+import type { RequestMetric } from '../src/types/metrics.js';
+import { createFakeSqlite } from './helpers/fakeSqlite.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.parse('2026-01-01T00:00:00.000Z');
+
+function metric(path: string, timestamp = new Date().toISOString()): RequestMetric {
+  return {
+    timestamp,
+    service: 'api',
+    method: 'GET',
+    path,
+    status: 200,
+    durationMs: 5,
+    ip: '203.0.113.7',
+    userAgent: 'curl/8.0',
+    isBot: false,
+    isInternal: false,
+    isSuspicious: false,
+  };
+}
+
+async function replayPaths(sink: MetricsSink) {
+  const paths: string[] = [];
+  await sink.replay(m => paths.push(m.path));
+  return paths;
+}
+
+describe('createJsonlMetricsSink', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'metrics-sink-'));
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Write one metric per flush, a second apart, so each can land in its own file
+   */
+  async function writeEach(sink: MetricsSink, paths: string[]) {
+    for (const path of paths) {
+      sink.write(metric(path));
+      await sink.prune();
+      vi.setSystemTime(Date.now() + 1000);
+    }
+  }
+
+  it('starts a new file once maxFileBytes would be exceeded', async () => {
+    // Room for two lines per file
+    const lineBytes = Buffer.byteLength(JSON.stringify(metric('/a')) + '\n');
+    const sink = createJsonlMetricsSink({ directory, maxFileBytes: lineBytes * 2 });
+    await writeEach(sink, ['/a', '/b', '/c']);
+    await sink.close();
+
+    const files = (await readdir(directory)).sort();
+    expect(files).toHaveLength(2);
+    expect(files.every(name => /^metrics-.*\.jsonl$/.test(name))).toBe(true);
+    const first = (await readFile(join(directory, files[0]), 'utf8')).trim().split('\n');
+    expect(first.map(line => JSON.parse(line).path)).toEqual(['/a', '/b']);
+
+    // Replay reads the files in order
+    const reopened = createJsonlMetricsSink({ directory });
+    expect(await replayPaths(reopened)).toEqual(['/a', '/b', '/c']);
+    await reopened.close();
+  });
+
+  it('keeps at most maxFiles files, dropping the oldest', async () => {
+    const sink = createJsonlMetricsSink({ directory, maxFileBytes: 1, maxFiles: 2 });
+    await writeEach(sink, ['/a', '/b', '/c', '/d']);
+
+    expect(await readdir(directory)).toHaveLength(2);
+    expect(await replayPaths(sink)).toEqual(['/c', '/d']);
+    await sink.close();
+  });
+
+  it('deletes files older than maxAgeDays but never the current one', async () => {
+    const old = join(directory, 'metrics-2025-01-01T00-00-00-000Z.jsonl');
+    await writeFile(old, JSON.stringify(metric('/old', new Date(START - 40 * DAY).toISOString())) + '\n');
+    const longAgo = (START - 40 * DAY) / 1000;
+    await utimes(old, longAgo, longAgo);
+
+    const sink = createJsonlMetricsSink({ directory, maxAgeDays: 30 });
+    await writeEach(sink, ['/new']);
+    expect(await readdir(directory)).toHaveLength(1);
+
+    // The file being written is kept however old its mtime looks
+    const [current] = await readdir(directory);
+    await utimes(join(directory, current), longAgo, longAgo);
+    await sink.prune();
+    expect(await readdir(directory)).toEqual([current]);
+    await sink.close();
+  });
+
+  it('skips expired metrics and corrupt lines on replay', async () => {
+    const lines = [
+      JSON.stringify(metric('/expired', new Date(START - 31 * DAY).toISOString())),
+      '{"timestamp": "2026-01-01T00:0',
+      JSON.stringify(metric('/kept', new Date(START - DAY).toISOString())),
+    ];
+    await writeFile(join(directory, 'metrics-2025-12-31T00-00-00-000Z.jsonl'), lines.join('\n') + '\n');
+    // Files with another prefix are left alone
+    await writeFile(join(directory, 'other-2025-12-31T00-00-00-000Z.jsonl'), lines.join('\n') + '\n');
+
+    const sink = createJsonlMetricsSink({ directory });
+    sink.write(metric('/buffered'));
+    expect(await replayPaths(sink)).toEqual(['/kept', '/buffered']);
+    await sink.close();
+  });
+});
+
+describe('createSqliteMetricsSink', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays every row in insertion order, a page at a time', async () => {
+    const { db, selects } = createFakeSqlite();
+    const sink = createSqliteMetricsSink({ db });
+    const paths = Array.from({ length: 2500 }, (_, i) => `/item/${i}`);
+    for (const path of paths) sink.write(metric(path));
+
+    expect(await replayPaths(sink)).toEqual(paths);
+    // Each page continues after the last id of the previous one
+    expect(selects.map(([afterId, , limit]) => [afterId, limit])).toEqual([[0, 1000], [1000, 1000], [2000, 1000]]);
+    await sink.close();
+  });
+
+  it('stops after a full last page', async () => {
+    const { db, selects } = createFakeSqlite();
+    const sink = createSqliteMetricsSink({ db });
+    for (let i = 0; i < 2000; i++) sink.write(metric(`/item/${i}`));
+
+    expect(await replayPaths(sink)).toHaveLength(2000);
+    expect(selects).toHaveLength(3);
+    await sink.close();
+  });
+
+  it('skips expired and corrupt rows on replay', async () => {
+    const { db, rows } = createFakeSqlite();
+    const sink = createSqliteMetricsSink({ db, maxAgeDays: 30 });
+    sink.write(metric('/expired', new Date(START - 31 * DAY).toISOString()));
+    sink.write(metric('/corrupt'));
+    sink.write(metric('/kept'));
+    rows[1].data = '{"path":';
+
+    expect(await replayPaths(sink)).toEqual(['/kept']);
+    await sink.close();
+  });
+
+  it('prunes rows past maxAgeDays and beyond maxRows', async () => {
+    const { db, rows } = createFakeSqlite();
+    const sink = createSqliteMetricsSink({ db, maxAgeDays: 30, maxRows: 3 });
+    sink.write(metric('/expired', new Date(START - 31 * DAY).toISOString()));
+    for (const path of ['/a', '/b', '/c', '/d']) sink.write(metric(path));
+
+    await sink.prune();
+    expect(rows.map(row => JSON.parse(row.data).path)).toEqual(['/b', '/c', '/d']);
+    await sink.close();
+  });
+
+  it('refuses table names that are not plain identifiers', () => {
+    const { db } = createFakeSqlite();
+    expect(() => createSqliteMetricsSink({ db, table: 'metrics; DROP TABLE users' })).toThrow();
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Hono } from 'hono';
+import { createMetricsStore, metricsLogger } from '../src/middleware/metrics.js';
+import { penaltyBox } from '../src/middleware/penaltyBox.js';
+
+const CLIENT = { 'x-real-ip': '203.0.113.7' };
+
+function createApp(maxMetrics: number) {
+  const store = createMetricsStore(maxMetrics);
+  const app = new Hono();
+  app.use('*', metricsLogger('test', { store }));
+  app.use('*', penaltyBox({ store, threshold: 3, window: 600 }));
+  app.get('/limited', (c) => c.json({ error: 'Too many requests' }, 429));
+  app.get('/ok', (c) => c.text('ok'));
+  return { app, store };
+}
+
+describe('penaltyBox', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('bans after enough strikes even once they left the metrics buffer', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { app, store } = createApp(2);
+
+    for (let i = 0; i < 3; i++) {
+      await app.request('/limited', { headers: CLIENT });
+      // Push the strike out of the two-entry ring buffer
+      await app.request('/ok', { headers: CLIENT });
+      await app.request('/ok', { headers: CLIENT });
+    }
+    expect(store.metrics.some(m => m.status === 429)).toBe(false);
+
+    const res = await app.request('/ok', { headers: CLIENT });
+    expect(res.status).toBe(403);
+    expect(store.bans['203.0.113.7']?.reason).toBe('rate_limited:3');
+  });
+
+  it('forgets strikes outside the window', async () => {
+    const { app, store } = createApp(100);
+    const old = Date.now() - 601 * 1000;
+    store.strikes['203.0.113.7'] = { suspicious: [old, old, old], rateLimited: [] };
+
+    const res = await app.request('/ok', { headers: CLIENT });
+    expect(res.status).toBe(200);
+    expect(store.strikes['203.0.113.7']).toBeUndefined();
+  });
+
+  it("doesn't record strikes from a banned scanner that keeps hammering", async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { app, store } = createApp(10);
+
+    for (let i = 0; i < 3; i++) {
+      await app.request('/.env', { headers: CLIENT });
+    }
+    expect((await app.request('/.env', { headers: CLIENT })).status).toBe(403);
+    const recorded = store.strikes['203.0.113.7'].suspicious.length;
+
+    for (let i = 0; i < 50; i++) {
+      await app.request('/.env', { headers: CLIENT });
+    }
+    expect(store.strikes['203.0.113.7'].suspicious).toHaveLength(recorded);
+  });
+
+  it('caps the strikes kept per IP', async () => {
+    // Allowlisted IPs are never banned, so nothing trims their strikes
+    const store = createMetricsStore(10);
+    const app = new Hono();
+    app.use('*', metricsLogger('test', { store }));
+    app.use('*', penaltyBox({ store, allowlist: ['203.0.113.7'] }));
+    app.get('/limited', (c) => c.json({ error: 'Too many requests' }, 429));
+
+    for (let i = 0; i < 1010; i++) {
+      await app.request('/limited', { headers: CLIENT });
+    }
+    expect(store.strikes['203.0.113.7'].rateLimited).toHaveLength(1000);
+  });
+});
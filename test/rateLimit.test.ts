@@ -0,0 +1,326 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Hono } from 'hono';
+import type { Context, Next } from 'hono';
+import { rateLimiter } from '../src/middleware/rateLimit.js';
+import type { RateLimitConfig, RateLimitOptions } from '../src/middleware/rateLimit.js';
+import { createRateLimitStore, createRedisRateLimitStore } from '../src/middleware/rateLimitStore.js';
+import type { RateLimitStore } from '../src/middleware/rateLimitStore.js';
+import { createRateLimitRoutes } from '../src/routes/rateLimit.js';
+import { createFakeRedis } from './helpers/fakeRedis.js';
+
+const TOKEN_BUCKET: RateLimitConfig = { limit: 5, window: 60, algorithm: 'token-bucket' };
+
+function createApp(store: RateLimitStore, config: RateLimitConfig) {
+  const app = new Hono();
+  app.use('*', rateLimiter(store, { default: config }));
+  app.get('/api/items', (c) => c.text('ok'));
+  return app;
+}
+
+describe('token bucket', () => {
+  it('allows a burst, then asks to wait one refill interval', async () => {
+    const app = createApp(createRateLimitStore(), TOKEN_BUCKET);
+
+    for (let i = 0; i < 5; i++) {
+      expect((await app.request('/api/items')).status).toBe(200);
+    }
+    const res = await app.request('/api/items');
+    expect(res.status).toBe(429);
+    // 60s / 5 tokens
+    expect(Number(res.headers.get('Retry-After'))).toBeLessThanOrEqual(12);
+  });
+
+  it('keeps the TAT absolute when replicas race on the first request', async () => {
+    const redis = createFakeRedis();
+    const replicas = [
+      createApp(createRedisRateLimitStore(redis.connect()), TOKEN_BUCKET),
+      createApp(createRedisRateLimitStore(redis.connect()), TOKEN_BUCKET),
+    ];
+
+    const responses = await Promise.all(
+      Array.from({ length: 20 }, (_, i) => replicas[i % 2].request('/api/items'))
+    );
+    expect(responses.filter(res => res.status === 200).length).toBeLessThanOrEqual(5);
+
+    for (const res of responses.filter(res => res.status === 429)) {
+      expect(Number(res.headers.get('Retry-After'))).toBeLessThanOrEqual(12);
+    }
+
+    const after = await replicas[0].request('/api/items');
+    expect(Number(after.headers.get('X-RateLimit-Reset'))).toBeLessThanOrEqual(60);
+  });
+
+  it('recovers from a TAT far in the future', async () => {
+    const redis = createFakeRedis();
+    const client = redis.connect();
+    const app = createApp(createRedisRateLimitStore(client), TOKEN_BUCKET);
+
+    // e.g. written by an older version that stored the TAT as a delta
+    await client.sendCommand(['SET', 'ratelimit:unknown:/api/items:tb', String(Date.now() * 2)]);
+
+    const res = await app.request('/api/items');
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get('Retry-After'))).toBeLessThanOrEqual(12);
+  });
+});
+
+describe.each([
+  ['fixed window', { limit: 4, window: 60, algorithm: 'fixed-window' } as RateLimitConfig],
+  ['sliding window counter', { limit: 4, window: 60, algorithm: 'sliding-window-counter' } as RateLimitConfig],
+])('%s', (_, config) => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows the limit, then rejects until the window moves on', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(120 * 1000);
+    const app = createApp(createRateLimitStore(), config);
+
+    for (let i = 0; i < 4; i++) {
+      const res = await app.request('/api/items');
+      expect(res.status).toBe(200);
+      expect(res.headers.get('X-RateLimit-Remaining')).toBe(String(3 - i));
+    }
+    const res = await app.request('/api/items');
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get('Retry-After'))).toBeLessThanOrEqual(60);
+
+    vi.setSystemTime(240 * 1000);
+    expect((await app.request('/api/items')).status).toBe(200);
+  });
+
+  it('keeps a shared limit across replicas racing on one key', async () => {
+    // Stay inside one window
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(120 * 1000);
+    const redis = createFakeRedis();
+    const replicas = [
+      createApp(createRedisRateLimitStore(redis.connect()), config),
+      createApp(createRedisRateLimitStore(redis.connect()), config),
+    ];
+
+    const responses = await Promise.all(
+      Array.from({ length: 20 }, (_, i) => replicas[i % 2].request('/api/items'))
+    );
+    const allowed = responses.filter(res => res.status === 200).length;
+    expect(allowed).toBeGreaterThan(0);
+    expect(allowed).toBeLessThanOrEqual(4);
+  });
+});
+
+describe('sliding window counter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("weights the previous window's count by its overlap", async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(120 * 1000);
+    const app = createApp(createRateLimitStore(), { limit: 4, window: 60, algorithm: 'sliding-window-counter' });
+
+    for (let i = 0; i < 4; i++) {
+      await app.request('/api/items');
+    }
+
+    // Halfway into the next window, the previous 4 requests still count as 2
+    vi.setSystemTime(210 * 1000);
+    expect((await app.request('/api/items')).status).toBe(200);
+    expect((await app.request('/api/items')).status).toBe(200);
+    const res = await app.request('/api/items');
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get('Retry-After'))).toBeLessThanOrEqual(30);
+  });
+});
+
+describe('quota', () => {
+  const options = {
+    default: { limit: 5, window: 60 },
+    endpoints: { 'POST /api/import': { limit: 2, window: 300 } },
+  };
+
+  function createQuotaApp() {
+    const store = createRateLimitStore();
+    const app = new Hono();
+    app.route('/api/rate-limit', createRateLimitRoutes({ store, options }));
+    app.use('/api/items', rateLimiter(store, options));
+    app.get('/api/items', (c) => c.text('ok'));
+    return app;
+  }
+
+  it('reports the default limit for the requested path', async () => {
+    const app = createQuotaApp();
+    for (let i = 0; i < 3; i++) {
+      await app.request('/api/items');
+    }
+
+    const { quotas } = await (await app.request('/api/rate-limit/quota?path=/api/items')).json();
+    expect(quotas.find((q: { endpoint: string }) => q.endpoint === 'default')).toMatchObject({ limit: 5, remaining: 2 });
+  });
+
+  it('leaves out the per-path default without a path', async () => {
+    const app = createQuotaApp();
+
+    const { quotas } = await (await app.request('/api/rate-limit/quota')).json();
+    expect(quotas.map((q: { endpoint: string }) => q.endpoint)).toEqual(['POST /api/import']);
+  });
+});
+
+describe('tiers', () => {
+  const options: RateLimitOptions = {
+    default: { limit: 3, window: 60 },
+    ownerUserIds: ['owner'],
+    tierClaim: 'plan',
+    tiers: {
+      anonymous: { default: { limit: 1, window: 60 } },
+      owner: { default: { limit: 5, window: 60 } },
+      pro: { default: { limit: 4, window: 60 } },
+    },
+  };
+
+  /**
+   * App whose user comes from the X-Test-User header (JSON), standing in for optionalAuth
+   */
+  function createTierApp(overrides: Partial<RateLimitOptions> = {}) {
+    const app = new Hono();
+    app.use('*', async (c: Context, next: Next) => {
+      const user = c.req.header('x-test-user');
+      if (user) c.set('user', JSON.parse(user));
+      await next();
+    });
+    app.use('*', rateLimiter(createRateLimitStore(), { ...options, ...overrides }));
+    app.get('/api/items', (c) => c.text('ok'));
+    return app;
+  }
+
+  const limitFor = async (app: Hono, user?: Record<string, unknown>) => {
+    const res = await app.request('/api/items', user ? { headers: { 'X-Test-User': JSON.stringify(user) } } : {});
+    return Number(res.headers.get('X-RateLimit-Limit'));
+  };
+
+  it('picks the tier from the claim, owner list, or login state', async () => {
+    const app = createTierApp();
+
+    expect(await limitFor(app)).toBe(1);
+    expect(await limitFor(app, { id: 'user-1' })).toBe(3);
+    expect(await limitFor(app, { id: 'owner' })).toBe(5);
+    expect(await limitFor(app, { id: 'user-2', plan: 'pro' })).toBe(4);
+    // The claim wins over the owner list
+    expect(await limitFor(app, { id: 'owner', plan: 'pro' })).toBe(4);
+  });
+
+  it('uses the top-level limits for tiers without an entry', async () => {
+    const app = createTierApp();
+
+    expect(await limitFor(app, { id: 'user-3', plan: 'enterprise' })).toBe(3);
+    expect(await limitFor(app, { id: 'user-4', plan: 42 })).toBe(3);
+  });
+
+  it('keys authenticated users by id rather than IP', async () => {
+    const app = createTierApp();
+    const headers = (id: string) => ({ 'X-Test-User': JSON.stringify({ id }), 'X-Real-IP': '203.0.113.7' });
+
+    for (let i = 0; i < 3; i++) {
+      expect((await app.request('/api/items', { headers: headers('user-1') })).status).toBe(200);
+    }
+    expect((await app.request('/api/items', { headers: headers('user-1') })).status).toBe(429);
+    // Same IP, different user
+    expect((await app.request('/api/items', { headers: headers('user-2') })).status).toBe(200);
+  });
+
+  it('uses a custom tier resolver', async () => {
+    const app = createTierApp({ tierResolver: () => 'owner' });
+
+    expect(await limitFor(app)).toBe(5);
+  });
+});
+
+describe('endpoint rules', () => {
+  const endpoints: Record<string, RateLimitConfig> = {
+    '/api/auth': { limit: 10, window: 60 },
+    '/api/*': { limit: 50, window: 60 },
+    '/api/items/:id': { limit: 20, window: 60 },
+    '/api/items/:id/export': { limit: 2, window: 3600 },
+    'POST|PUT /api/items': { limit: 5, window: 60 },
+    '/api/v1.0/*': { limit: 7, window: 60 },
+    '/api/search/*': { limit: 30, window: 60, stack: true },
+  };
+
+  function createRulesApp(defaultConfig: RateLimitConfig = { limit: 100, window: 60 }) {
+    const app = new Hono();
+    app.use('*', rateLimiter(createRateLimitStore(), { default: defaultConfig, endpoints, standardHeaders: true }));
+    app.all('*', (c) => c.text('ok'));
+    return app;
+  }
+
+  /**
+   * Names of the policies applied to a request, from the RateLimit-Policy header
+   */
+  const policiesFor = async (app: Hono, method: string, path: string) => {
+    const res = await app.request(path, { method });
+    return [...(res.headers.get('RateLimit-Policy') ?? '').matchAll(/"([^"]+)"/g)].map(match => match[1]);
+  };
+
+  it.each([
+    ['GET', '/api/auth/login', '/api/auth'],
+    ['GET', '/api/items', '/api/*'],
+    ['GET', '/api/items/42', '/api/items/:id'],
+    ['GET', '/api/items/42/', '/api/items/:id'],
+    ['GET', '/api/items/42/export', '/api/items/:id/export'],
+    ['GET', '/api/items/42/7/export', '/api/*'],
+    ['POST', '/api/items', 'POST|PUT /api/items'],
+    ['put', '/api/items', 'POST|PUT /api/items'],
+    ['DELETE', '/api/items', '/api/*'],
+    ['GET', '/api/v1.0/items', '/api/v1.0/*'],
+    ['GET', '/api/v100/items', '/api/*'],
+    ['GET', '/health', 'default'],
+  ])('%s %s uses %s', async (method, path, expected) => {
+    expect(await policiesFor(createRulesApp(), method.toUpperCase(), path)).toEqual([expected]);
+  });
+
+  it("matches a trailing '/*' without the slash", async () => {
+    expect(await policiesFor(createRulesApp(), 'GET', '/api')).toEqual(['/api/*']);
+  });
+
+  it('applies stacked rules on top of the most specific one', async () => {
+    const app = createRulesApp({ limit: 100, window: 3600, stack: true });
+
+    expect(await policiesFor(app, 'GET', '/api/search/items')).toEqual(['/api/*', 'default', '/api/search/*']);
+    expect(await policiesFor(app, 'GET', '/health')).toEqual(['default']);
+  });
+
+  it('enforces a stacked default as a budget across paths', async () => {
+    const app = new Hono();
+    app.use('*', rateLimiter(createRateLimitStore(), {
+      default: { limit: 3, window: 60, stack: true },
+      endpoints: { '/api/*': { limit: 10, window: 60 } },
+    }));
+    app.get('*', (c) => c.text('ok'));
+
+    expect((await app.request('/api/items')).status).toBe(200);
+    expect((await app.request('/api/users')).status).toBe(200);
+    expect((await app.request('/api/search')).status).toBe(200);
+    const res = await app.request('/api/reports');
+    expect(res.status).toBe(429);
+    expect(res.headers.get('X-RateLimit-Limit')).toBe('3');
+  });
+
+  it("doesn't use up other policies when one rejects the request", async () => {
+    const store = createRateLimitStore();
+    const app = new Hono();
+    app.use('*', rateLimiter(store, {
+      default: { limit: 10, window: 60, stack: true },
+      endpoints: { '/api/import': { limit: 1, window: 60 } },
+    }));
+    app.get('*', (c) => c.text('ok'));
+
+    await app.request('/api/import');
+    for (let i = 0; i < 5; i++) {
+      expect((await app.request('/api/import')).status).toBe(429);
+    }
+
+    // Only the allowed request counted against the budget
+    const res = await app.request('/api/items');
+    expect(res.headers.get('X-RateLimit-Remaining')).toBe('8');
+  });
+});
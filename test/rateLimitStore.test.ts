@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Hono } from 'hono';
+import { rateLimiter } from '../src/middleware/rateLimit.js';
+import { createRateLimitStore, createRedisRateLimitStore } from '../src/middleware/rateLimitStore.js';
+import type { RateLimitStore } from '../src/middleware/rateLimitStore.js';
+import { createFakeRedis } from './helpers/fakeRedis.js';
+
+function createApp(store: RateLimitStore) {
+  const app = new Hono();
+  app.use('*', rateLimiter(store, { default: { limit: 5, window: 60 } }));
+  app.get('/api/items', (c) => c.text('ok'));
+  return app;
+}
+
+describe('sliding log store', () => {
+  it('keeps a shared limit across replicas racing on one key', async () => {
+    const redis = createFakeRedis();
+    const replicas = [
+      createApp(createRedisRateLimitStore(redis.connect())),
+      createApp(createRedisRateLimitStore(redis.connect())),
+    ];
+
+    const responses = await Promise.all(
+      Array.from({ length: 20 }, (_, i) => replicas[i % 2].request('/api/items'))
+    );
+
+    const statuses = responses.map(res => res.status);
+    expect(statuses.filter(status => status === 200)).toHaveLength(5);
+    expect(statuses.filter(status => status === 429)).toHaveLength(15);
+  });
+
+  it('keeps the limit for concurrent requests on the in-memory store', async () => {
+    const app = createApp(createRateLimitStore());
+
+    const responses = await Promise.all(
+      Array.from({ length: 10 }, () => app.request('/api/items'))
+    );
+
+    expect(responses.filter(res => res.status === 200)).toHaveLength(5);
+  });
+
+  it('drops hits that left the window', async () => {
+    const store = createRedisRateLimitStore(createFakeRedis().connect());
+
+    expect(await store.increment('k', 1000, 1000, 2)).toEqual([]);
+    expect(await store.increment('k', 1500, 1000, 2)).toEqual([1000]);
+    // Full: not recorded
+    expect(await store.increment('k', 1800, 1000, 2)).toEqual([1000, 1500]);
+    // The hit at 1000 has expired
+    expect(await store.increment('k', 2100, 1000, 2)).toEqual([1500]);
+    expect(await store.get('k', 1100)).toEqual([1500, 2100]);
+  });
+});
+
+describe('compareAndSetCounter', () => {
+  it.each([
+    ['in-memory', () => createRateLimitStore()],
+    ['redis', () => createRedisRateLimitStore(createFakeRedis().connect())],
+  ])('only sets the %s counter when it holds the expected value', async (_, createStore) => {
+    const store = createStore();
+
+    expect(await store.compareAndSetCounter('k', 0, 1500.5, 1000)).toBe(true);
+    expect(await store.compareAndSetCounter('k', 0, 2000, 1000)).toBe(false);
+    expect(await store.getCounter('k')).toBe(1500.5);
+    expect(await store.compareAndSetCounter('k', 1500.5, 2000, 1000)).toBe(true);
+    expect(await store.getCounter('k')).toBe(2000);
+  });
+});
+
+describe('incrementCounter', () => {
+  it.each([
+    ['in-memory', () => createRateLimitStore()],
+    ['redis', () => createRedisRateLimitStore(createFakeRedis().connect())],
+  ])('adds to the %s counter and returns the new value', async (_, createStore) => {
+    const store = createStore();
+
+    expect(await store.incrementCounter('k', 1, 1000)).toBe(1);
+    expect(await store.incrementCounter('k', 0.5, 1000)).toBe(1.5);
+    expect(await store.getCounter('k')).toBe(1.5);
+  });
+
+  it('sets the expiry with the increment on the redis store', async () => {
+    const client = createFakeRedis().connect();
+    const store = createRedisRateLimitStore(client);
+
+    await store.incrementCounter('k', 1, 60 * 1000);
+    const ttl = Number(await client.sendCommand(['PTTL', 'ratelimit:k']));
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(60 * 1000);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createRedisRevocationStore, createRevocationStore } from '../src/middleware/revocationStore.js';
+import { createFakeRedis } from './helpers/fakeRedis.js';
+
+describe.each([
+  ['in-memory', () => ({ store: createRevocationStore(), replica: undefined })],
+  ['redis', () => {
+    const redis = createFakeRedis();
+    return {
+      store: createRedisRevocationStore(redis.connect()),
+      replica: createRedisRevocationStore(redis.connect()),
+    };
+  }],
+])('%s revocation store', (_, createStores) => {
+  it('revokes a token id until it expires', async () => {
+    const { store } = createStores();
+
+    expect(await store.isRevoked('jti-1')).toBe(false);
+    await store.revoke('jti-1', Date.now() + 60 * 1000);
+    expect(await store.isRevoked('jti-1')).toBe(true);
+
+    await store.revoke('jti-2', Date.now() - 1000);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(await store.isRevoked('jti-2')).toBe(false);
+  });
+
+  it("doesn't shorten an existing revocation", async () => {
+    const { store } = createStores();
+
+    await store.revoke('jti-1', Date.now() + 60 * 1000);
+    await store.revoke('jti-1', Date.now() + 1);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(await store.isRevoked('jti-1')).toBe(true);
+  });
+
+  it('keeps the later watermark and the longer expiry', async () => {
+    const { store } = createStores();
+    const now = Date.now();
+
+    expect(await store.getRevokedBefore('user-1')).toBeNull();
+    await store.revokeBefore('user-1', now, now + 60 * 1000);
+    await store.revokeBefore('user-1', now - 5000, now + 1);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(await store.getRevokedBefore('user-1')).toBe(now);
+  });
+
+  it('keeps the later watermark when logouts race', async () => {
+    const { store, replica = store } = createStores();
+    const now = Date.now();
+
+    await Promise.all([
+      store.revokeBefore('user-1', now + 2000, now + 60 * 1000),
+      replica.revokeBefore('user-1', now + 1000, now + 60 * 1000),
+      store.revokeBefore('user-1', now, now + 60 * 1000),
+    ]);
+    expect(await replica.getRevokedBefore('user-1')).toBe(now + 2000);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { Hono } from 'hono';
+import type { Context, Next } from 'hono';
+import { createApiKeyAuth } from '../src/middleware/apiKeyAuth.js';
+import { createApiKeyStore } from '../src/middleware/apiKeyStore.js';
+import { createCsrfProtection } from '../src/middleware/csrf.js';
+import { createMetricsStore } from '../src/middleware/metrics.js';
+import { createMetricsRoutes } from '../src/routes/metrics.js';
+import { createRevocationStore } from '../src/middleware/revocationStore.js';
+import { createRevocationRoutes } from '../src/routes/revocation.js';
+import { createApiKeyRoutes } from '../src/routes/apiKeys.js';
+
+const FRONTEND = 'https://app.example.test';
+const OWNER = { id: 'owner', email: 'owner@example.test', name: 'Owner' };
+
+const csrf = createCsrfProtection({
+  secret: 'test-csrf-secret-at-least-32-characters',
+  trustedOrigins: [FRONTEND],
+  isProduction: false,
+});
+
+// Stands in for the cookie session set up by requireAuth
+const requireAuth = async (c: Context, next: Next) => {
+  c.set('user', OWNER);
+  await next();
+};
+const getUser = (c: Context) => c.get('user');
+
+/**
+ * Get a CSRF token for the owner's session, as the frontend would from /me
+ */
+async function issueToken() {
+  const app = new Hono();
+  app.get('/', (c) => c.text(csrf.issueToken(c, OWNER.id)));
+  const res = await app.request('/');
+  return {
+    token: await res.text(),
+    cookie: res.headers.get('set-cookie')!.split(';')[0],
+  };
+}
+
+async function expectCsrfChecked(app: Hono, path: string, init: RequestInit) {
+  const forged = await app.request(path, {
+    ...init,
+    headers: { ...init.headers, Origin: 'https://evil.example' },
+  });
+  expect(forged.status).toBe(403);
+
+  const { token, cookie } = await issueToken();
+  const missingToken = await app.request(path, {
+    ...init,
+    headers: { ...init.headers, Origin: FRONTEND },
+  });
+  expect(missingToken.status).toBe(403);
+
+  const allowed = await app.request(path, {
+    ...init,
+    headers: { ...init.headers, Origin: FRONTEND, Cookie: cookie, 'X-CSRF-Token': token },
+  });
+  expect(allowed.status).not.toBe(403);
+  return allowed;
+}
+
+describe('CSRF on owner routes', () => {
+  it('checks DELETE /bans/:ip on the metrics routes', async () => {
+    const store = createMetricsStore();
+    store.bans['203.0.113.7'] = {
+      ip: '203.0.113.7',
+      bannedAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60 * 1000).toISOString(),
+      offenses: 1,
+      reason: 'suspicious:5',
+    };
+    const app = new Hono();
+    app.route('/api/metrics', createMetricsRoutes({ store, requireAuth, getUser, ownerUserId: OWNER.id, csrf }));
+
+    const res = await expectCsrfChecked(app, '/api/metrics/bans/203.0.113.7', { method: 'DELETE' });
+    expect(res.status).toBe(200);
+    expect(await (await app.request('/api/metrics/bans')).json()).toEqual([]);
+  });
+
+  it('checks revocations on the revocation routes', async () => {
+    const store = createRevocationStore();
+    const app = new Hono();
+    app.route('/api/auth/revocations', createRevocationRoutes({ store, requireAuth, getUser, ownerUserId: OWNER.id, csrf }));
+
+    const json = { 'Content-Type': 'application/json' };
+    const jti = await expectCsrfChecked(app, '/api/auth/revocations/jti', {
+      method: 'POST', headers: json, body: JSON.stringify({ jti: 'token-1' }),
+    });
+    expect(jti.status).toBe(200);
+    expect(await store.isRevoked('token-1')).toBe(true);
+
+    const user = await expectCsrfChecked(app, '/api/auth/revocations/user', {
+      method: 'POST', headers: json, body: JSON.stringify({ userId: 'user-1' }),
+    });
+    expect(user.status).toBe(200);
+    expect(await store.getRevokedBefore('user-1')).not.toBeNull();
+  });
+
+  it('checks minting and revoking on the API key routes', async () => {
+    const store = createApiKeyStore();
+    const apiKeys = createApiKeyAuth({ store });
+    const app = new Hono();
+    app.route('/api/auth/keys', createApiKeyRoutes({ apiKeys, store, requireAuth, getUser, ownerUserId: OWNER.id, csrf }));
+
+    // Listing is a safe method
+    expect((await app.request('/api/auth/keys')).status).toBe(200);
+
+    const minted = await expectCsrfChecked(app, '/api/auth/keys', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ name: 'cron' }),
+    });
+    expect(minted.status).toBe(201);
+    const { id } = await minted.json();
+
+    const revoked = await expectCsrfChecked(app, `/api/auth/keys/${id}`, { method: 'DELETE' });
+    expect(revoked.status).toBe(200);
+    expect(await store.get(id)).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import { Hono } from 'hono';
+import { createServiceAuth } from '../src/middleware/serviceAuth.js';
+import { createJwtKeySet, signJwt } from '../src/utils/jwks.js';
+
+const SECRET = 'test-jwt-secret-at-least-32-characters-long';
+const tracker = generateKeyPairSync('ed25519');
+const billing = generateKeyPairSync('ed25519');
+const now = () => Math.floor(Date.now() / 1000);
+
+const jwtKeys = createJwtKeySet({
+  keys: [
+    { kid: 'tracker:1', alg: 'EdDSA', key: tracker.publicKey },
+    { kid: 'billing:1', alg: 'EdDSA', key: billing.publicKey },
+  ],
+});
+
+const trackerAuth = createServiceAuth({
+  service: 'tracker',
+  signingKey: { alg: 'EdDSA', kid: 'tracker:1', privateKey: tracker.privateKey },
+});
+
+/**
+ * The Hub, accepting calls from the tracker only
+ */
+function createHub() {
+  const { requireService, getService } = createServiceAuth({ service: 'hub', jwtKeys });
+  const app = new Hono();
+  app.use('/internal/*', requireService(['tracker']));
+  app.get('/internal/usage', (c) => c.json({ caller: getService(c) }));
+  return app;
+}
+
+const call = (app: Hono, token: string) =>
+  app.request('/internal/usage', { headers: { Authorization: `Bearer ${token}` } });
+
+describe('requireService', () => {
+  it('lets a listed service through with its own key', async () => {
+    const res = await createHub().request('/internal/usage', trackerAuth.signRequest('hub'));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ caller: 'tracker' });
+  });
+
+  it('rejects requests without a bearer token', async () => {
+    expect((await createHub().request('/internal/usage')).status).toBe(401);
+  });
+
+  it('rejects user tokens', async () => {
+    const token = signJwt(
+      { iss: 'tracker', sub: 'user-1', aud: 'hub', iat: now(), exp: now() + 60 },
+      { alg: 'EdDSA', kid: 'tracker:1', privateKey: tracker.privateKey }
+    );
+    expect((await call(createHub(), token)).status).toBe(401);
+
+    const wrongUse = signJwt(
+      { iss: 'tracker', aud: 'hub', iat: now(), exp: now() + 60, token_use: 'access' },
+      { alg: 'EdDSA', kid: 'tracker:1', privateKey: tracker.privateKey }
+    );
+    expect((await call(createHub(), wrongUse)).status).toBe(401);
+  });
+
+  it('rejects a key vouching for another service', async () => {
+    // billing's key, claiming to be the tracker
+    const token = signJwt(
+      { iss: 'tracker', aud: 'hub', iat: now(), exp: now() + 60, token_use: 'service' },
+      { alg: 'EdDSA', kid: 'billing:1', privateKey: billing.privateKey }
+    );
+
+    expect((await call(createHub(), token)).status).toBe(401);
+  });
+
+  it('answers 403 for a valid service that is not listed', async () => {
+    const billingAuth = createServiceAuth({
+      service: 'billing',
+      signingKey: { alg: 'EdDSA', kid: 'billing:1', privateKey: billing.privateKey },
+    });
+
+    expect((await call(createHub(), billingAuth.getServiceToken('hub'))).status).toBe(403);
+  });
+
+  it('rejects tokens for another audience', async () => {
+    expect((await call(createHub(), trackerAuth.getServiceToken('billing'))).status).toBe(401);
+  });
+
+  it('rejects tokens older than maxTokenAge', async () => {
+    const token = signJwt(
+      { iss: 'tracker', aud: 'hub', iat: now() - 600, exp: now() + 60, token_use: 'service' },
+      { alg: 'EdDSA', kid: 'tracker:1', privateKey: tracker.privateKey }
+    );
+
+    expect((await call(createHub(), token)).status).toBe(401);
+  });
+
+  it('accepts HS256 service tokens with a shared secret', async () => {
+    const sender = createServiceAuth({ service: 'tracker', signingKey: { alg: 'HS256', secret: SECRET } });
+    const { requireService } = createServiceAuth({ service: 'hub', jwtSecret: SECRET });
+    const app = new Hono();
+    app.use('*', requireService(['tracker']));
+    app.get('/internal/usage', (c) => c.text('ok'));
+
+    expect((await app.request('/internal/usage', sender.signRequest('hub'))).status).toBe(200);
+  });
+});
+
+describe('getServiceToken', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reuses a token until a quarter of its lifetime is left, then mints a new one', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(1_000_000);
+    const auth = createServiceAuth({
+      service: 'tracker',
+      signingKey: { alg: 'EdDSA', kid: 'tracker:1', privateKey: tracker.privateKey },
+      tokenTtl: 60,
+    });
+
+    const first = auth.getServiceToken('hub');
+    vi.setSystemTime(1_000_000 + 44 * 1000);
+    expect(auth.getServiceToken('hub')).toBe(first);
+    // Tokens are cached per audience
+    expect(auth.getServiceToken('billing')).not.toBe(first);
+
+    vi.setSystemTime(1_000_000 + 46 * 1000);
+    expect(auth.getServiceToken('hub')).not.toBe(first);
+  });
+
+  it('keeps the caller options when signing a request', () => {
+    const init = trackerAuth.signRequest('hub', { method: 'POST', headers: { 'Content-Type': 'application/json' } });
+    const headers = new Headers(init.headers);
+
+    expect(init.method).toBe('POST');
+    expect(headers.get('Content-Type')).toBe('application/json');
+    expect(headers.get('Authorization')).toMatch(/^Bearer /);
+  });
+
+  it("refuses a signing key that isn't the service's own", () => {
+    expect(() => createServiceAuth({
+      service: 'tracker',
+      signingKey: { alg: 'EdDSA', kid: 'billing:1', privateKey: billing.privateKey },
+    })).toThrow();
+  });
+});